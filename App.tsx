@@ -1,13 +1,64 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkMath from 'remark-math';
 import rehypeKatex from 'rehype-katex';
-import { extractQuestions, generateQuestionsFromSlides, generateStudyNotes, generateWrittenQuestions, fileToGenerativePart } from './services/geminiService';
-import { Question, AppStep, QuizResult, NoteSection, WrittenQuestion, ExamType } from './types';
+import { extractQuestions, generateQuestionsFromSlides, generateStudyNotes, generateWrittenQuestions, fileToGenerativePart, dedupeQuestions, findNearDuplicates, removeDuplicates, ExtractionReport, ChunkProgress, SourceFile } from './services/geminiService';
+import { saveSourceFile, deleteSourceFiles, referencedFileIds, unreferencedFileIds } from './services/sourceFiles';
+import { FileChunk, chunkFile } from './services/chunking';
+import { saveUpload, updateUpload, listUploads, deleteUpload, mergeById, BankMaterial } from './services/questionBank';
+import { LLMError, LLM_ERROR_LABELS } from './services/llmErrors';
+import { FilePart } from './services/llmProvider';
+import { DEFAULT_SCORING_RULES, computeScore } from './services/scoring';
+import { validateQuestion, optionLabel } from './services/answerKey';
+import { QuestionSet, parseQuestionSetFile, toJSON, toCSV, downloadFile, toSafeFileName } from './services/questionSets';
+import { toAnkiTSV, toGIFT, toQTIPackage } from './services/lmsExport';
+import { recordExamResults, getDueCards } from './services/spacedRepetition';
+import { EMPTY_FILTER, isFiltered, selectExamQuestions } from './services/examBuilder';
+import { createSeed, seededRandom, shuffleOptions } from './services/shuffle';
+import { saveGrade, listGrades } from './services/writtenGrades';
+import { deleteTranscripts, listTranscripts } from './services/tutorTranscripts';
+import { AreaStats, areaFilter, listExamSessions, questionsInArea, recordExamSession } from './services/analytics';
+import { DEFAULT_GENERATION_SETTINGS } from './services/generationPlan';
+import { Question, AppStep, QuizResult, NoteSection, WrittenQuestion, ExamType, UploadMode, BankEntry, ScoringRules, ExamConfig, ReviewCard, DuplicateGroup, PrintDocumentType, PrintOptions, ExamSession, WrittenGrade, GenerationSettings } from './types';
 import AIChat from './components/AIChat';
-import { UploadIcon, BookOpenIcon, ClockIcon, SparklesIcon, HeartIcon, NoteIcon, DownloadIcon, PencilIcon } from './components/Icons';
+import QuestionBank from './components/QuestionBank';
+import MathText from './components/MathText';
+import ReviewSession from './components/ReviewSession';
+import QuestionEditor from './components/QuestionEditor';
+import PdfOptionsDialog from './components/PdfOptionsDialog';
+import SourceViewer from './components/SourceViewer';
+import ExamFilterPanel from './components/ExamFilterPanel';
+import AnalyticsDashboard from './components/AnalyticsDashboard';
+import GenerationSettingsPanel from './components/GenerationSettingsPanel';
+import ExplanationBox from './components/ExplanationBox';
+import AnswerReview from './components/AnswerReview';
+import WrittenPractice from './components/WrittenPractice';
+import { UploadIcon, BookOpenIcon, ClockIcon, SparklesIcon, HeartIcon, NoteIcon, DownloadIcon, PencilIcon, DocumentSearchIcon } from './components/Icons';
 
-type UploadMode = 'extract' | 'generate' | 'notes' | 'written';
+type ExportFormat = 'json' | 'csv' | 'anki' | 'gift' | 'qti';
+
+const EXPORT_LABELS: Record<ExportFormat, string> = { json: 'JSON', csv: 'CSV', anki: 'Anki', gift: 'GIFT', qti: 'QTI' };
+
+// A file whose extraction stopped on an error, kept so the user can resume it
+interface IncompleteFile {
+  source: SourceFile;
+  fileData: FilePart;
+  chunks: FileChunk[]; // page ranges or tiles, for the extract and written modes
+  nextChunk: number;
+  mode: UploadMode;
+  examType: ExamType;
+  generation: GenerationSettings;
+  explain: boolean;
+  material: BankMaterial;
+  bankEntry?: BankEntry;
+  error: LLMError;
+}
+
+const stepForMode = (mode: UploadMode): AppStep => {
+  if (mode === 'notes') return AppStep.NOTES_VIEW;
+  if (mode === 'written') return AppStep.WRITTEN_VIEW;
+  return AppStep.SETUP;
+};
 
 function App() {
   const [step, setStep] = useState<AppStep>(AppStep.UPLOAD);
@@ -16,8 +67,17 @@ function App() {
   const [writtenQuestions, setWrittenQuestions] = useState<WrittenQuestion[]>([]);
   const [uploadMode, setUploadMode] = useState<UploadMode>('extract');
   const [examType, setExamType] = useState<ExamType>('varsity');
+  const [generationSettings, setGenerationSettings] = useState<GenerationSettings>(DEFAULT_GENERATION_SETTINGS);
+  const [withExplanations, setWithExplanations] = useState(true);
+  const [scoringRules, setScoringRules] = useState<ScoringRules>(DEFAULT_SCORING_RULES.varsity);
   
   // Exam State
+  const [examConfig, setExamConfig] = useState<ExamConfig>({ mode: 'practice', durationMinutes: 60, questionCount: 0, shuffle: false, shuffleOptions: false, filter: EMPTY_FILTER });
+  const [examQuestionIds, setExamQuestionIds] = useState<number[] | null>(null); // null = all questions, including ones still being extracted
+  const [optionSeed, setOptionSeed] = useState<number | null>(null); // set when this attempt shuffles options
+  const [attemptSeed, setAttemptSeed] = useState<number | null>(null);
+  // Shuffled copies keyed by the stored question, so a copy only changes when its question is edited
+  const shuffledQuestions = useRef(new WeakMap<Question, Question>());
   const [currentQIndex, setCurrentQIndex] = useState(0);
   const [userAnswers, setUserAnswers] = useState<Record<number, string>>({});
   const [answerTimes, setAnswerTimes] = useState<Record<number, number>>({});
@@ -29,11 +89,15 @@ function App() {
   // Global Time Tracking
   const [examStartTime, setExamStartTime] = useState<number | null>(null);
   const [totalExamDuration, setTotalExamDuration] = useState<number>(0);
+  const [examDeadline, setExamDeadline] = useState<number | null>(null);
+  const [remainingSeconds, setRemainingSeconds] = useState(0);
 
   // Processing State
   const [isProcessing, setIsProcessing] = useState(false); 
   const [isBackgroundExtracting, setIsBackgroundExtracting] = useState(false);
   const [processingStatus, setProcessingStatus] = useState('');
+  const [incompleteFiles, setIncompleteFiles] = useState<IncompleteFile[]>([]);
+  const [chunkProgress, setChunkProgress] = useState<{ done: number; total: number } | null>(null);
   
   // Favorites State
   const [favorites, setFavorites] = useState<Set<number>>(new Set());
@@ -41,9 +105,157 @@ function App() {
   // Written View State
   const [visibleAnswers, setVisibleAnswers] = useState<Set<number>>(new Set());
 
+  // Item whose source page is open in the exam or written view
+  const [openSourceId, setOpenSourceId] = useState<number | null>(null);
+
+  // Question Bank State
+  const [bankEntries, setBankEntries] = useState<BankEntry[]>([]);
+
+  // Near-duplicate groups the user chose to keep, by the kept question's id
+  const [dismissedDuplicates, setDismissedDuplicates] = useState<Set<number>>(new Set());
+
+  // PDF export waiting for layout options
+  const [pendingPdf, setPendingPdf] = useState<{ items: any[]; title: string; type: PrintDocumentType } | null>(null);
+
+  // Spaced Repetition State
+  const [dueReviewCount, setDueReviewCount] = useState(0);
+  const [reviewDeck, setReviewDeck] = useState<ReviewCard[]>([]);
+
+  // Graded attempts at written questions, newest first per question
+  const [writtenGrades, setWrittenGrades] = useState<Record<number, WrittenGrade[]>>({});
+  const [practiceWrittenId, setPracticeWrittenId] = useState<number | null>(null);
+
+  // Finished exams, oldest first, for the analytics view
+  const [examSessions, setExamSessions] = useState<ExamSession[]>([]);
+
   const timerRef = useRef<number | null>(null);
+  const submitExamRef = useRef<() => void>(() => {});
   const abortControllerRef = useRef<AbortController | null>(null);
 
+  const refreshBank = () => {
+    listUploads().then(setBankEntries).catch(err => console.error("Failed to load question bank", err));
+  };
+
+  const refreshDueReviews = () => {
+    getDueCards().then(cards => setDueReviewCount(cards.length)).catch(err => console.error("Failed to load review queue", err));
+  };
+
+  const refreshSessions = () => {
+    listExamSessions().then(setExamSessions).catch(err => console.error("Failed to load exam history", err));
+  };
+
+  useEffect(() => {
+    refreshBank(); refreshDueReviews(); refreshSessions();
+    listGrades().then(setWrittenGrades).catch(err => console.error("Failed to load written grades", err));
+  }, []);
+
+  const recordGrade = (grade: WrittenGrade) => {
+    setWrittenGrades(prev => ({ ...prev, [grade.questionId]: [grade, ...(prev[grade.questionId] || [])] }));
+    saveGrade(grade).catch(err => console.error("Failed to save grade", err));
+  };
+
+  useEffect(() => { setScoringRules(DEFAULT_SCORING_RULES[examType]); }, [examType]);
+
+  // Runs the model pipeline over one file. Whatever it produced is saved to the bank even when it stops early;
+  // a file that stopped on an error comes back as an IncompleteFile so it can be resumed.
+  const processFile = async (
+    source: SourceFile,
+    fileData: FilePart,
+    chunks: FileChunk[],
+    mode: UploadMode,
+    exam: ExamType,
+    generation: GenerationSettings,
+    explain: boolean,
+    signal: AbortSignal,
+    prior?: IncompleteFile
+  ): Promise<{ produced: boolean; incomplete?: IncompleteFile }> => {
+      const { fileName } = source;
+      const material: BankMaterial = prior?.material ?? { questions: [], writtenQuestions: [], notes: [] };
+      let bankEntry = prior?.bankEntry;
+      let produced = false;
+      let report: ExtractionReport = { complete: true };
+      const onRetry = (error: LLMError, attempt: number, delayMs: number) => {
+          setProcessingStatus(`${fileName}: ${LLM_ERROR_LABELS[error.kind]} — ${Math.ceil(delayMs / 1000)} সেকেন্ড পর আবার চেষ্টা করা হচ্ছে (${attempt})...`);
+      };
+      const onProgress = ({ chunk, index, total }: ChunkProgress) => {
+          if (chunk.pageCount) {
+              setProcessingStatus(`${fileName}: ${chunk.label} / ${chunk.pageCount} পড়া হচ্ছে...`);
+              setChunkProgress({ done: chunk.startPage! - 1, total: chunk.pageCount });
+          } else if (total > 1) {
+              setProcessingStatus(`${fileName}: ${chunk.label} পড়া হচ্ছে...`);
+              setChunkProgress({ done: index, total });
+          }
+      };
+      const startChunk = prior?.nextChunk ?? 0;
+
+      try {
+          if (mode === 'notes') {
+              report = await generateStudyNotes(fileData, (newBatch) => {
+                  material.notes.push(...newBatch);
+                  setNotes(prev => [...prev, ...newBatch]);
+                  if (newBatch.length > 0) produced = true;
+              }, signal, exam, { existing: [...material.notes], source, onRetry });
+          } else if (mode === 'written') {
+              report = await generateWrittenQuestions(chunks, (newBatch) => {
+                  material.writtenQuestions.push(...newBatch);
+                  setWrittenQuestions(prev => [...prev, ...newBatch]);
+                  if (newBatch.length > 0) produced = true;
+              }, signal, exam, { existing: [...material.writtenQuestions], source, startChunk, onRetry, onProgress });
+          } else {
+              const onBatch = (batch: Question[]) => {
+                  material.questions.push(...batch);
+                  setQuestions(prev => [...prev, ...dedupeQuestions(prev, batch)]);
+                  if (batch.length > 0) produced = true;
+              };
+              const options = { existing: [...material.questions], source, startChunk, explain, onRetry, onProgress };
+              if (mode === 'extract') report = await extractQuestions(chunks, onBatch, signal, options);
+              else report = await generateQuestionsFromSlides(fileData, onBatch, signal, exam, options, generation);
+          }
+      } finally {
+          setChunkProgress(null);
+          // Keep whatever was extracted so far, even if the run was aborted or failed midway
+          const { questions: qs, writtenQuestions: ws, notes: ns } = material;
+          if (qs.length + ws.length + ns.length > 0) {
+              try {
+                  bankEntry = bankEntry ? await updateUpload({ ...bankEntry, ...material }) : await saveUpload(fileName, mode, exam, material);
+                  refreshBank();
+              } catch (err) {
+                  console.error("Failed to save upload to question bank", err);
+              }
+          }
+      }
+
+      if (report.complete || !report.error || report.error.kind === 'aborted') return { produced };
+      return { produced, incomplete: { source, fileData, chunks, nextChunk: report.nextChunk ?? 0, mode, examType: exam, generation, explain, material, bankEntry, error: report.error } };
+  };
+
+  // An upload nothing came from would otherwise stay in the sources store with nothing pointing at it
+  const dropUnusedSource = (fileId?: string) => {
+      if (!fileId) return;
+      unreferencedFileIds([fileId])
+          .then(deleteSourceFiles)
+          .catch(err => console.error("Failed to delete unused source file", err));
+  };
+
+  const describeIncomplete = (files: IncompleteFile[]) => files.map(f => {
+      const found = f.material.questions.length + f.material.writtenQuestions.length + f.material.notes.length;
+      const resumeAt = f.chunks[f.nextChunk]?.startPage ? ` ${f.chunks[f.nextChunk].label} থেকে আবার শুরু হবে।` : '';
+      return `${f.source.fileName}: ${found} টি পাওয়ার পর থেমে গেছে (${LLM_ERROR_LABELS[f.error.kind]})।${resumeAt}`;
+  }).join('\n');
+
+  const finishProcessing = (hasGeneratedData: boolean, mode: UploadMode, incomplete: IncompleteFile[]) => {
+      setIncompleteFiles(incomplete);
+      setProcessingStatus(describeIncomplete(incomplete));
+      setIsBackgroundExtracting(false);
+      setIsProcessing(false);
+
+      // Only navigate if the user hasn't already manually started the quiz
+      setStep(prevStep => {
+          if (prevStep === AppStep.UPLOAD && hasGeneratedData) return stepForMode(mode);
+          return prevStep;
+      });
+  };
+
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
     if (!files || files.length === 0) return;
@@ -54,6 +266,9 @@ function App() {
     setFavorites(new Set());
     setVisibleAnswers(new Set());
     setUserNotes({});
+    // Interrupted files are given up on; their stored originals go too unless a bank entry uses them
+    incompleteFiles.forEach(f => dropUnusedSource(f.source.fileId));
+    setIncompleteFiles([]);
     setIsProcessing(true);
     
     if (abortControllerRef.current) abortControllerRef.current.abort();
@@ -61,6 +276,7 @@ function App() {
     abortControllerRef.current = controller;
     
     let hasGeneratedData = false;
+    const incomplete: IncompleteFile[] = [];
 
     try {
       setIsBackgroundExtracting(true);
@@ -71,91 +287,242 @@ function App() {
           
           let statusText = "";
           if (uploadMode === 'notes') statusText = `${examType.toUpperCase()} নোটের জন্য ফাইল ${progress} বিশ্লেষণ করা হচ্ছে...`;
-          else if (uploadMode === 'written') statusText = `${examType.toUpperCase()} লিখিত প্রশ্নের জন্য ফাইল ${progress} পড়া হচ্ছে...`;
+          else if (uploadMode === 'written') statusText = `${examType.toUpperCase()} লিখিত প্রশ্নের জন্য ফাইল ${progress} পড়া হচ্ছে...`;
           else if (uploadMode === 'extract') statusText = `ফাইল ${progress} থেকে প্রশ্ন খোঁজা হচ্ছে...`;
-          else statusText = `${examType.toUpperCase()} স্ট্যান্ডার্ড MCQ তৈরি হচ্ছে ${progress}...`;
+          else statusText = `${examType.toUpperCase()} স্ট্যান্ডার্ড ${generationSettings.count > 0 ? `${generationSettings.count} টি ` : ''}MCQ তৈরি হচ্ছে ${progress}...`;
           
           setProcessingStatus(statusText);
 
           const base64 = await fileToGenerativePart(file);
-          const fileData = { mimeType: file.type, data: base64 };
-
-          if (uploadMode === 'notes') {
-              await generateStudyNotes(fileData, (newBatch) => {
-                  setNotes(prev => [...prev, ...newBatch]);
-                  if (newBatch.length > 0) hasGeneratedData = true;
-              }, controller.signal, examType);
-          } else if (uploadMode === 'written') {
-              await generateWrittenQuestions(fileData, (newBatch) => {
-                  setWrittenQuestions(prev => [...prev, ...newBatch]);
-                  if (newBatch.length > 0) hasGeneratedData = true;
-              }, controller.signal, examType);
-          } else {
-              const onBatch = (batch: Question[]) => {
-                  setQuestions(prev => [...prev, ...batch]);
-                  if (batch.length > 0) hasGeneratedData = true;
-              };
-              if (uploadMode === 'extract') await extractQuestions(fileData, onBatch, controller.signal);
-              else await generateQuestionsFromSlides(fileData, onBatch, controller.signal, examType);
-          }
+          // Only the looping modes work through a file piece by piece; notes and generation need the whole picture
+          const chunks = uploadMode === 'extract' || uploadMode === 'written' ? await chunkFile(file, base64) : [];
+          // The original is kept so each item can show the page it came from; extraction works without it
+          const fileId = await saveSourceFile(file).catch(err => { console.error("Failed to store source file", err); return undefined; });
+          const outcome = await processFile({ fileName: file.name, fileId }, { mimeType: file.type, data: base64 }, chunks, uploadMode, examType, generationSettings, withExplanations, controller.signal)
+              .catch(err => { dropUnusedSource(fileId); throw err; });
+          if (!outcome.produced && !outcome.incomplete) dropUnusedSource(fileId);
+          if (outcome.produced) hasGeneratedData = true;
+          if (outcome.incomplete) incomplete.push(outcome.incomplete);
       }
-      setIsBackgroundExtracting(false);
-      setIsProcessing(false);
-      
-      // Only navigate if the user hasn't already manually started the quiz
-      setStep(prevStep => {
-          if (prevStep === AppStep.UPLOAD && hasGeneratedData) {
-              if (uploadMode === 'notes') return AppStep.NOTES_VIEW;
-              else if (uploadMode === 'written') return AppStep.WRITTEN_VIEW;
-              else return AppStep.SETUP;
-          }
-          return prevStep;
-      });
+      finishProcessing(hasGeneratedData, uploadMode, incomplete);
       
     } catch (err: any) {
       if (err.name !== 'AbortError') {
           setIsProcessing(false);
           setIsBackgroundExtracting(false);
           if (!hasGeneratedData) {
-              alert(`ফাইল পড়তে সমস্যা হয়েছে।\nত্রুটি: ${err.message}`);
+              alert(`ফাইল পড়তে সমস্যা হয়েছে।\nত্রুটি: ${err.message}`);
           }
       }
     }
   };
 
+  // Picks up each interrupted file with what it already produced, so the prompts skip those items
+  const resumeExtraction = async () => {
+    const pending = incompleteFiles;
+    if (pending.length === 0) return;
+
+    if (abortControllerRef.current) abortControllerRef.current.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    setIncompleteFiles([]);
+    setIsProcessing(true);
+    setIsBackgroundExtracting(true);
+
+    let hasGeneratedData = false;
+    const incomplete: IncompleteFile[] = [];
+    for (const file of pending) {
+        if (controller.signal.aborted) break;
+        setProcessingStatus(`${file.source.fileName} থেকে আবার শুরু করা হচ্ছে...`);
+        const outcome = await processFile(file.source, file.fileData, file.chunks, file.mode, file.examType, file.generation, file.explain, controller.signal, file);
+        if (!outcome.produced && !outcome.incomplete) dropUnusedSource(file.source.fileId);
+        if (outcome.produced) hasGeneratedData = true;
+        if (outcome.incomplete) incomplete.push(outcome.incomplete);
+    }
+    finishProcessing(hasGeneratedData, pending[0].mode, incomplete);
+  };
+
+  const examQuestions = useMemo(() => {
+    const present = (q: Question) => {
+        if (optionSeed === null) return q;
+        let shown = shuffledQuestions.current.get(q);
+        if (!shown) { shown = shuffleOptions(q, optionSeed); shuffledQuestions.current.set(q, shown); }
+        return shown;
+    };
+    if (!examQuestionIds) return questions.map(present);
+    const byId = new Map(questions.map(q => [q.id, q]));
+    return examQuestionIds.map(id => byId.get(id)).filter((q): q is Question => !!q).map(present);
+  }, [questions, examQuestionIds, optionSeed]);
+
+  const isMockExam = examConfig.mode === 'mock';
+
+  const duplicateGroups = useMemo(
+    () => step === AppStep.SETUP ? findNearDuplicates(questions).filter(g => !dismissedDuplicates.has(g.keep.id)) : [],
+    [step, questions, dismissedDuplicates]
+  );
+
+  const mergeDuplicateGroups = (groups: DuplicateGroup[]) => {
+    setQuestions(prev => removeDuplicates(prev, groups));
+  };
+
+  const keepDuplicateGroup = (group: DuplicateGroup) => {
+    setDismissedDuplicates(prev => new Set(prev).add(group.keep.id));
+  };
+
   useEffect(() => {
-    if (step === AppStep.EXAM && questions[currentQIndex]) {
-        const qId = questions[currentQIndex].id;
+    if (step === AppStep.EXAM && examQuestions[currentQIndex]) {
+        const qId = examQuestions[currentQIndex].id;
         setShowNoteInput(false); // Close note input when changing questions
-        if (!userAnswers[qId]) {
+        // Mock exams keep the clock running since answers can still be changed
+        if (!userAnswers[qId] || isMockExam) {
             timerRef.current = window.setInterval(() => setTimeSpent(t => t + 1), 1000);
         }
     }
     return () => { if (timerRef.current) clearInterval(timerRef.current); };
-  }, [step, currentQIndex, userAnswers, questions]);
+  }, [step, currentQIndex, userAnswers, examQuestions, isMockExam]);
+
+  // Global countdown for mock exams; auto-submits when time runs out
+  useEffect(() => {
+    if (step !== AppStep.EXAM || !examDeadline) return;
+    const tick = () => {
+        const left = Math.max(0, Math.ceil((examDeadline - Date.now()) / 1000));
+        setRemainingSeconds(left);
+        if (left === 0) submitExamRef.current();
+    };
+    tick();
+    const id = window.setInterval(tick, 1000);
+    return () => clearInterval(id);
+  }, [step, examDeadline]);
 
   const startQuizWhileExtracting = () => {
       // Do not abort extraction. Let it run in background.
       setIsProcessing(false);
-      if (uploadMode === 'notes') setStep(AppStep.NOTES_VIEW);
-      else if (uploadMode === 'written') setStep(AppStep.WRITTEN_VIEW);
-      else setStep(AppStep.SETUP);
+      setStep(stepForMode(uploadMode));
+  };
+
+  const openBankEntry = (entry: BankEntry) => {
+      setIncompleteFiles([]);
+      setQuestions(entry.questions.map(validateQuestion));
+      setWrittenQuestions(entry.writtenQuestions);
+      setNotes(entry.notes);
+      setFavorites(new Set());
+      setVisibleAnswers(new Set());
+      setUserNotes({});
+      setUploadMode(entry.mode);
+      setExamType(entry.examType);
+      setStep(stepForMode(entry.mode));
+  };
+
+  const mergeBankEntry = (entry: BankEntry) => {
+      setQuestions(prev => [...prev, ...dedupeQuestions(prev, entry.questions.map(validateQuestion))]);
+      setWrittenQuestions(prev => mergeById(prev, entry.writtenQuestions));
+      setNotes(prev => mergeById(prev, entry.notes));
   };
 
-  const startExam = () => {
+  const startReview = () => {
+      getDueCards()
+          .then(cards => { setReviewDeck(cards); setStep(AppStep.REVIEW); })
+          .catch(err => console.error("Failed to load review queue", err));
+  };
+
+  const exitReview = () => {
+      refreshDueReviews();
+      setStep(AppStep.UPLOAD);
+  };
+
+  const removeBankEntry = (entry: BankEntry) => {
+      if (!window.confirm(`"${entry.fileName}" প্রশ্ন ব্যাংক থেকে মুছে ফেলবেন?`)) return;
+      const fileIds = referencedFileIds([...entry.questions, ...entry.writtenQuestions, ...entry.notes]);
+      // Imported copies, past exams and what is open right now may still point at the same stored files
+      const open = [...questions, ...writtenQuestions, ...notes, ...incompleteFiles];
+      deleteUpload(entry.id)
+          .then(() => unreferencedFileIds(fileIds, open))
+          .then(deleteSourceFiles)
+          .then(() => deleteTranscripts(entry.questions.map(q => q.id), questions))
+          .then(refreshBank)
+          .catch(err => console.error("Failed to delete upload", err));
+  };
+
+  const startExam = (config: ExamConfig = examConfig, pool: Question[] = questions) => {
+    // One seed per attempt deals both the question order and every question's options
+    const seed = createSeed();
+    const paper = selectExamQuestions(pool, config, seededRandom(seed));
+    const takesAll = pool === questions && !config.shuffle && !isFiltered(config.filter) && paper.length === pool.length;
+    const mock = config.mode === 'mock';
+    // Mock exams freeze the paper at start; practice on "all" keeps picking up background extraction
+    if (mock || !takesAll) setExamQuestionIds(paper.map(q => q.id));
+    else setExamQuestionIds(null);
+    shuffledQuestions.current = new WeakMap();
+    setOptionSeed(config.shuffleOptions ? seed : null);
+    setAttemptSeed(config.shuffle || config.shuffleOptions ? seed : null);
+
+    const now = Date.now();
     setCurrentQIndex(0); setUserAnswers({}); setAnswerTimes({}); setShowExplanation(false); setTimeSpent(0); setUserNotes({});
-    setExamStartTime(Date.now()); setStep(AppStep.EXAM);
+    setExamStartTime(now);
+    setExamDeadline(mock ? now + config.durationMinutes * 60 * 1000 : null);
+    setStep(AppStep.EXAM);
+  };
+
+  // Pulls every known question in a weak area into the loaded set and starts a shuffled practice run on just that area
+  const practiceWeakArea = (area: AreaStats) => {
+    const sessionQuestions = examSessions.map(s => s.attempts.map(a => a.question));
+    const areaQuestions = questionsInArea(area, [questions, ...bankEntries.map(e => e.questions), ...sessionQuestions]);
+    if (areaQuestions.length === 0) { alert("এই টপিকের কোনো প্রশ্ন পাওয়া যায়নি।"); return; }
+    const pool = mergeById(questions, areaQuestions.map(validateQuestion));
+    const config: ExamConfig = { ...examConfig, mode: 'practice', questionCount: 0, shuffle: true, filter: areaFilter(area) };
+    setQuestions(pool);
+    setExamConfig(config);
+    startExam(config, pool);
+  };
+
+  // Same settings as the last exam, on just the questions that were answered wrong
+  const retakeWrong = (wrong: Question[]) => {
+    startExam({ ...examConfig, questionCount: 0, filter: EMPTY_FILTER }, wrong);
+  };
+
+  // In mock mode time is accumulated per question across visits
+  const recordMockTime = (): Record<number, number> => {
+    const q = examQuestions[currentQIndex];
+    if (!isMockExam || !q) return answerTimes;
+    const next = { ...answerTimes, [q.id]: (answerTimes[q.id] || 0) + timeSpent };
+    setAnswerTimes(next);
+    return next;
+  };
+
+  const goToQuestion = (index: number) => {
+    recordMockTime();
+    setCurrentQIndex(index); setShowExplanation(false); setTimeSpent(0);
   };
 
   const submitExam = () => {
     if (timerRef.current) clearInterval(timerRef.current);
-    if (examStartTime) setTotalExamDuration(Math.floor((Date.now() - examStartTime) / 1000));
+    const finalTimes = recordMockTime();
+    setExamDeadline(null);
+    const duration = examStartTime ? Math.floor((Date.now() - examStartTime) / 1000) : 0;
+    setTotalExamDuration(duration);
     setIsBackgroundExtracting(false); 
     if (abortControllerRef.current) abortControllerRef.current.abort(); // Stop extraction on finish
+    recordExamResults(examQuestions, userAnswers, finalTimes, favorites)
+        .then(refreshDueReviews)
+        .catch(err => console.error("Failed to update review queue", err));
+    recordExamSession(examQuestions, userAnswers, finalTimes, examConfig.mode, examType, duration, attemptSeed)
+        .then(refreshSessions)
+        .catch(err => console.error("Failed to save exam history", err));
     setStep(AppStep.RESULTS);
   };
+  submitExamRef.current = submitExam;
 
   const handleAnswerSelect = (qId: number, option: string) => {
+    if (isMockExam) {
+        // Answers stay editable until submit; tapping the chosen option clears it
+        setUserAnswers(prev => {
+            const next = { ...prev };
+            if (next[qId] === option) delete next[qId]; else next[qId] = option;
+            return next;
+        });
+        return;
+    }
     if (userAnswers[qId]) return;
     setAnswerTimes(prev => ({ ...prev, [qId]: timeSpent }));
     setUserAnswers(prev => ({ ...prev, [qId]: option }));
@@ -170,6 +537,8 @@ function App() {
       });
   };
 
+  const formatClock = (seconds: number) => `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+
   const formatDurationVerbose = (seconds: number) => {
       const mins = Math.floor(seconds / 60);
       const secs = seconds % 60;
@@ -177,148 +546,105 @@ function App() {
       return `${mins} মিনিট ${secs} সেকেন্ড`;
   };
 
-  const handleDownloadPDF = (items: any[], title: string, type: 'questions' | 'notes' | 'written') => {
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files;
+    if (!files || files.length === 0) return;
+    const imported: QuestionSet = { questions: [], writtenQuestions: [], notes: [] };
+
+    for (let i = 0; i < files.length; i++) {
+        const file = files[i];
+        try {
+            const set = await parseQuestionSetFile(file);
+            imported.questions = [...imported.questions, ...dedupeQuestions(imported.questions, set.questions)];
+            imported.writtenQuestions = mergeById(imported.writtenQuestions, set.writtenQuestions);
+            imported.notes = mergeById(imported.notes, set.notes);
+            const mode: UploadMode = set.questions.length > 0 ? 'extract' : set.writtenQuestions.length > 0 ? 'written' : 'notes';
+            if (set.questions.length + set.writtenQuestions.length + set.notes.length > 0) {
+                saveUpload(file.name, mode, examType, set).then(refreshBank).catch(err => console.error("Failed to save import to question bank", err));
+            }
+        } catch (err: any) {
+            alert(`"${file.name}" ইমপোর্ট করা যায়নি।\nত্রুটি: ${err.message}`);
+        }
+    }
+    e.target.value = '';
+
+    const { questions: qs, writtenQuestions: ws, notes: ns } = imported;
+    if (qs.length + ws.length + ns.length === 0) return;
+    setQuestions(qs);
+    setWrittenQuestions(ws);
+    setNotes(ns);
+    setFavorites(new Set());
+    setVisibleAnswers(new Set());
+    setUserNotes({});
+    const mode: UploadMode = qs.length > 0 ? 'extract' : ws.length > 0 ? 'written' : 'notes';
+    setUploadMode(mode);
+    setStep(stepForMode(mode));
+  };
+
+  const handleExport = (format: ExportFormat, set: Partial<QuestionSet>, title: string) => {
+    const full: QuestionSet = { questions: [], writtenQuestions: [], notes: [], ...set };
+    if (full.questions.length + full.writtenQuestions.length + full.notes.length === 0) {
+        alert("এক্সপোর্ট করার মতো কিছু নেই।");
+        return;
+    }
+    const fileName = toSafeFileName(title);
+    const { questions: qs, writtenQuestions: ws } = full;
+    switch (format) {
+        case 'json': downloadFile(toJSON(full, title), `${fileName}.json`, 'application/json'); break;
+        case 'csv': downloadFile(toCSV(qs, ws, scoringRules.marksPerQuestion), `${fileName}.csv`, 'text/csv;charset=utf-8'); break;
+        case 'anki': downloadFile(toAnkiTSV(qs, ws), `${fileName}_anki.txt`, 'text/tab-separated-values;charset=utf-8'); break;
+        case 'gift': downloadFile(toGIFT(qs, ws), `${fileName}.gift.txt`, 'text/plain;charset=utf-8'); break;
+        case 'qti': downloadFile(toQTIPackage(qs, ws), `${fileName}_qti21.zip`, 'application/zip'); break;
+    }
+  };
+
+  const renderExportButtons = (set: Partial<QuestionSet>, title: string, formats: ExportFormat[] = ['json', 'csv', 'anki', 'gift', 'qti']) => (
+    <>
+      {formats.map(format => (
+        <button key={format} onClick={() => handleExport(format, set, title)} className="px-3 py-2 bg-neutral-800 text-gray-300 rounded-lg text-sm font-bold hover:bg-neutral-700">{EXPORT_LABELS[format]}</button>
+      ))}
+    </>
+  );
+
+  const handleDownloadPDF = (items: any[], title: string, type: PrintDocumentType) => {
     if (items.length === 0) {
         alert("ডাউনলোড করার মতো কিছু নেই।");
         return;
     }
+    setPendingPdf({ items, title, type });
+  };
+
+  const printPendingPdf = async (options: PrintOptions) => {
+    if (!pendingPdf) return;
+    const { items, title, type } = pendingPdf;
+    setPendingPdf(null);
+    // Open synchronously from the click so popup blockers allow it, then fill it in
     const printWindow = window.open('', '_blank');
     if (!printWindow) return;
-    
-    // Enrich items with user notes if applicable
-    const itemsToPrint = items.map(item => ({
-        ...item,
-        userNote: type === 'questions' ? userNotes[item.id] : undefined
-    }));
-    
-    const htmlContent = `
-      <!DOCTYPE html>
-      <html>
-        <head>
-          <title>${title}</title>
-          <link href="https://fonts.googleapis.com/css2?family=Hind+Siliguri:wght@400;500;600;700&display=swap" rel="stylesheet">
-          <link rel="stylesheet" href="https://cdn.jsdelivr.net/npm/katex@0.16.9/dist/katex.min.css">
-          <style>
-            body { 
-              font-family: 'Hind Siliguri', sans-serif; 
-              padding: 40px; 
-              color: #1e293b; 
-              max-width: 900px; 
-              margin: 0 auto; 
-              line-height: 1.6;
-            }
-            .header { text-align: center; margin-bottom: 40px; border-bottom: 2px solid #f1f5f9; padding-bottom: 20px; }
-            .header h1 { margin: 0; font-size: 28px; color: #0f172a; }
-            .header p { margin: 5px 0 0; color: #64748b; font-size: 14px; }
-            .card { border: 1px solid #e2e8f0; border-radius: 12px; padding: 25px; margin-bottom: 25px; page-break-inside: avoid; background: #fff; box-shadow: 0 1px 3px rgba(0,0,0,0.05); }
-            .q-text { font-size: 19px; font-weight: 700; margin-bottom: 15px; color: #0f172a; display: block; }
-            .option { margin-bottom: 8px; padding: 10px 15px; border-radius: 8px; border: 1px solid #f1f5f9; font-size: 16px; display: flex; align-items: center; }
-            .correct { background: #f0fdf4; border: 1px solid #bbf7d0; font-weight: 700; color: #15803d; }
-            .correct-marker { margin-right: 10px; font-weight: bold; }
-            .importance-badge { font-size: 11px; padding: 2px 8px; border-radius: 99px; text-transform: uppercase; font-weight: bold; margin-left: 10px; }
-            .importance-High { background: #fee2e2; color: #dc2626; }
-            .importance-Medium { background: #fef9c3; color: #a16207; }
-            .importance-Normal { background: #e0f2fe; color: #0369a1; }
-            .note-title { font-size: 20px; font-weight: 700; color: #dc2626; margin-bottom: 10px; display: flex; align-items: center; }
-            .written-meta { font-size: 12px; font-weight: 700; text-transform: uppercase; color: #64748b; margin-bottom: 8px; display: block; }
-            .answer-box { margin-top: 15px; padding: 15px; background: #f8fafc; border-left: 4px solid #dc2626; border-radius: 4px; font-size: 15px; }
-            .answer-label { font-size: 11px; font-weight: 800; color: #dc2626; text-transform: uppercase; display: block; margin-bottom: 5px; }
-            .user-note { margin-top: 15px; padding: 12px; background-color: #fefce8; border: 1px solid #fde047; border-radius: 8px; color: #854d0e; }
-            .note-label { font-weight: 700; font-size: 12px; text-transform: uppercase; display: block; margin-bottom: 4px; color: #ca8a04; }
-            .katex { font-size: 1.1em !important; }
-            p { margin-bottom: 10px; }
-          </style>
-          <script defer src="https://cdn.jsdelivr.net/npm/katex@0.16.9/dist/katex.min.js"></script>
-          <script defer src="https://cdn.jsdelivr.net/npm/katex@0.16.9/dist/contrib/auto-render.min.js"></script>
-          <script src="https://cdn.jsdelivr.net/npm/marked/marked.min.js"></script>
-        </head>
-        <body>
-          <div class="header"><h1>${title}</h1><p>Smart MCQ Master - AI Admission Assistant</p></div>
-          <div id="content"></div>
-          <script>
-            const items = ${JSON.stringify(itemsToPrint)};
-            const type = "${type}";
-            const container = document.getElementById('content');
-            
-            items.forEach((item, i) => {
-              const card = document.createElement('div');
-              card.className = 'card';
-              
-              if (type === 'questions') {
-                card.innerHTML = \`<span class="q-text">Q\${i+1}. \${item.text}</span>\`;
-                const optsDiv = document.createElement('div');
-                item.options.forEach(opt => {
-                  const isCorrect = opt === item.correctAnswer;
-                  const optDiv = document.createElement('div');
-                  optDiv.className = 'option' + (isCorrect ? ' correct' : '');
-                  optDiv.innerHTML = \`<span class="correct-marker">\${isCorrect ? '✓ ' : '○ '}</span>\${opt}\`;
-                  optsDiv.appendChild(optDiv);
-                });
-                card.appendChild(optsDiv);
-                
-                if (item.userNote) {
-                    const noteDiv = document.createElement('div');
-                    noteDiv.className = 'user-note';
-                    noteDiv.innerHTML = \`<span class="note-label">My Note / Analysis:</span><div class="md-content">\${item.userNote}</div>\`;
-                    card.appendChild(noteDiv);
-                }
-
-              } else if (type === 'notes') {
-                card.innerHTML = \`
-                  <div class="note-title">
-                    \${item.title} 
-                    <span class="importance-badge importance-\${item.importance}">\${item.importance} Priority</span>
-                  </div>
-                  <div class="md-content">\${item.content}</div>
-                \`;
-              } else if (type === 'written') {
-                card.innerHTML = \`
-                  <span class="written-meta">\${item.subject} • \${item.type} • \${item.marks} Marks</span>
-                  <span class="q-text">Q\${i+1}. \${item.question}</span>
-                  <div class="answer-box">
-                    <span class="answer-label">Model Solution:</span>
-                    <div class="md-content">\${item.answer}</div>
-                  </div>
-                \`;
-              }
-              container.appendChild(card);
-            });
-
-            window.onload = () => {
-              // First render Markdown
-              const mdTargets = document.querySelectorAll('.md-content');
-              mdTargets.forEach(target => {
-                target.innerHTML = marked.parse(target.textContent);
-              });
-
-              // Then render KaTeX Math
-              renderMathInElement(document.body, {
-                delimiters: [
-                  {left: '$$', right: '$$', display: true},
-                  {left: '$', right: '$', display: false},
-                  {left: '\\\\(', right: '\\\\)', display: false},
-                  {left: '\\\\[', right: '\\\\]', display: true}
-                ],
-                throwOnError: false
-              });
-
-              // Trigger print
-              setTimeout(() => {
-                window.print();
-              }, 1000);
-            };
-          </script>
-        </body>
-      </html>
-    `;
-    printWindow.document.write(htmlContent);
-    printWindow.document.close();
-  };
-
-  const renderMathText = (text: string, isOption = false) => (
-    <ReactMarkdown remarkPlugins={[remarkMath]} rehypePlugins={[rehypeKatex]} components={{ p: ({node, ...props}) => isOption ? <span {...props} /> : <p {...props} /> }}>
-        {text}
-    </ReactMarkdown>
+    try {
+        const { buildPrintHtml } = await import('./components/PrintDocument');
+        const tutorChats = type === 'questions' && options.tutorChats && !options.questionsOnly ? await listTranscripts() : {};
+        printWindow.document.write(buildPrintHtml({ title, type, items, options, userNotes, tutorChats }));
+        printWindow.document.close();
+    } catch (err: any) {
+        printWindow.close();
+        alert(`PDF তৈরি করতে সমস্যা হয়েছে।\nত্রুটি: ${err.message}`);
+    }
+  };
+
+  const renderMathText = (text: string, isOption = false) => <MathText text={text} inline={isOption} />;
+
+  const renderExtractionIssue = () => (
+    <div className="w-full max-w-4xl px-4 md:px-0 mb-6 animate-fade-in">
+      <div className="bg-yellow-500/5 border border-yellow-500/20 rounded-2xl p-4 text-left">
+        <p className="text-sm font-bold text-yellow-400 mb-1">এক্সট্র্যাকশন অসম্পূর্ণ — ফাইলে আরো প্রশ্ন থাকতে পারে</p>
+        <p className="text-sm text-yellow-200/80 whitespace-pre-line mb-3">{processingStatus}</p>
+        <div className="flex gap-2">
+          <button onClick={resumeExtraction} className="px-4 py-2 rounded-lg bg-yellow-500/20 text-yellow-300 text-sm font-bold hover:bg-yellow-500/30">এক্সট্র্যাকশন আবার শুরু করুন</button>
+          <button onClick={() => setIncompleteFiles([])} className="px-4 py-2 rounded-lg text-gray-500 text-sm hover:text-gray-300">বাদ দিন</button>
+        </div>
+      </div>
+    </div>
   );
 
   const renderUpload = () => (
@@ -341,6 +667,14 @@ function App() {
           <button onClick={() => { setExamType('buet'); setUploadMode('written'); }} className={`px-5 py-2.5 rounded-xl text-sm font-bold transition-all ${examType === 'buet' ? 'bg-white text-black' : 'text-gray-500 hover:text-gray-300'}`}>BUET (Written)</button>
       </div>
 
+      {uploadMode === 'generate' && !isProcessing && <GenerationSettingsPanel settings={generationSettings} onChange={setGenerationSettings} />}
+      {(uploadMode === 'extract' || uploadMode === 'generate') && !isProcessing && (
+          <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer mb-6">
+              <input type="checkbox" checked={withExplanations} onChange={(e) => setWithExplanations(e.target.checked)} className="accent-red-500 w-4 h-4" />
+              প্রতিটি প্রশ্নের সংক্ষিপ্ত ব্যাখ্যাসহ
+          </label>
+      )}
+
       <div className="w-full max-w-md px-4 md:px-0">
         <label className={`flex flex-col items-center justify-center w-full h-64 border-2 border-dashed rounded-3xl cursor-pointer transition-all duration-300 relative overflow-hidden ${isProcessing ? 'border-red-500 bg-neutral-900' : 'border-neutral-700 hover:border-red-400 hover:bg-neutral-900'}`}>
           <div className="flex flex-col items-center justify-center pt-5 pb-6 z-10 w-full px-4">
@@ -348,6 +682,11 @@ function App() {
                 <div className="flex flex-col items-center w-full">
                     <div className="w-12 h-12 border-4 border-red-500 border-t-transparent rounded-full animate-spin mb-4"></div>
                     <p className="text-red-400 font-medium animate-pulse mb-4 text-center">{processingStatus}</p>
+                    {chunkProgress && (
+                        <div className="w-full h-1.5 bg-neutral-800 rounded-full overflow-hidden mb-2">
+                            <div className="h-full bg-red-500 transition-all duration-500" style={{ width: `${(chunkProgress.done / chunkProgress.total) * 100}%` }} />
+                        </div>
+                    )}
                     {questions.length > 0 && uploadMode !== 'notes' && uploadMode !== 'written' && (
                          <button onClick={(e) => { e.preventDefault(); e.stopPropagation(); startQuizWhileExtracting(); }} className="mt-4 px-8 py-3 bg-red-600 text-white rounded-xl font-bold shadow-lg transform hover:scale-105 transition-all">কুইজ শুরু করুন ({questions.length})</button>
                     )}
@@ -361,30 +700,190 @@ function App() {
           </div>
           <input type="file" className="hidden" accept="application/pdf, image/*" multiple onChange={handleFileUpload} disabled={isProcessing} />
         </label>
+        {!isProcessing && (
+          <label className="mt-3 block text-center text-sm text-gray-500 hover:text-red-400 cursor-pointer transition-colors">
+            অথবা JSON / CSV প্রশ্ন সেট ইমপোর্ট করুন
+            <input type="file" className="hidden" accept=".json,.csv,application/json,text/csv" multiple onChange={handleImportFile} />
+          </label>
+        )}
       </div>
+
+      {!isProcessing && (questions.length + writtenQuestions.length + notes.length > 0) && (
+        <div className="w-full max-w-md px-4 md:px-0 mt-6 flex flex-wrap gap-2 justify-center">
+            {questions.length > 0 && <button onClick={() => setStep(AppStep.SETUP)} className="px-4 py-2 rounded-xl bg-neutral-800 text-white text-sm font-bold hover:bg-neutral-700">লোড করা {questions.length} MCQ নিয়ে চালিয়ে যান</button>}
+            {writtenQuestions.length > 0 && <button onClick={() => setStep(AppStep.WRITTEN_VIEW)} className="px-4 py-2 rounded-xl bg-neutral-800 text-white text-sm font-bold hover:bg-neutral-700">{writtenQuestions.length} লিখিত প্রশ্ন</button>}
+            {notes.length > 0 && <button onClick={() => setStep(AppStep.NOTES_VIEW)} className="px-4 py-2 rounded-xl bg-neutral-800 text-white text-sm font-bold hover:bg-neutral-700">{notes.length} নোট</button>}
+        </div>
+      )}
+
+      {!isProcessing && dueReviewCount > 0 && (
+        <button onClick={startReview} className="mt-6 px-6 py-3 rounded-xl bg-yellow-500/10 text-yellow-400 border border-yellow-500/20 hover:bg-yellow-500/20 transition-all font-bold">
+            আজকের রিভিউ ({dueReviewCount} টি প্রশ্ন)
+        </button>
+      )}
+
+      {!isProcessing && examSessions.length > 0 && (
+        <button onClick={() => setStep(AppStep.ANALYTICS)} className="mt-3 text-sm text-gray-500 hover:text-red-400 transition-colors">
+            পারফরম্যান্স বিশ্লেষণ ({examSessions.length} টি পরীক্ষা)
+        </button>
+      )}
+
+      {!isProcessing && <QuestionBank entries={bankEntries} onOpen={openBankEntry} onMerge={mergeBankEntry} onDelete={removeBankEntry} />}
     </div>
   );
 
+  const renderSetup = () => {
+    const updateRule = (key: keyof ScoringRules, value: string) => {
+        const parsed = parseFloat(value);
+        setScoringRules(prev => ({ ...prev, [key]: isNaN(parsed) ? 0 : Math.max(0, parsed) }));
+    };
+    const updateConfig = (key: 'durationMinutes' | 'questionCount', value: string) => {
+        const parsed = parseInt(value, 10);
+        setExamConfig(prev => ({ ...prev, [key]: isNaN(parsed) ? 0 : Math.max(0, parsed) }));
+    };
+    const needsReviewCount = questions.filter(q => q.needsReview).length;
+    const paperIsEmpty = selectExamQuestions(questions, examConfig).length === 0;
+    const ruleFields: { key: keyof ScoringRules; label: string; step: number }[] = [
+        { key: 'marksPerQuestion', label: 'প্রতি প্রশ্নে নম্বর', step: 0.25 },
+        { key: 'negativeMark', label: 'ভুলে কাটা যাবে', step: 0.05 },
+        { key: 'passPercentage', label: 'পাস মার্ক (%)', step: 1 },
+    ];
+
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[50vh] animate-fade-in p-4">
+        <div className="md:bg-surface bg-transparent md:p-8 p-4 md:rounded-3xl md:shadow-2xl w-full max-w-lg md:border md:border-neutral-800 border-0 text-center">
+          <h2 className="text-3xl font-bold mb-4 text-white">{examType.toUpperCase()} স্ট্যান্ডার্ড প্রশ্ন তৈরি</h2>
+          <div className="flex flex-col items-center justify-center mb-6 bg-neutral-900 rounded-2xl p-6 border border-neutral-800 w-full">
+              <p className="text-secondary text-sm mb-2">রেডি প্রশ্ন</p>
+              <p className="text-5xl font-bold text-white">{questions.length}</p>
+              <div className="mt-4 flex flex-wrap gap-2 justify-center">
+                  <button onClick={() => setStep(AppStep.EDITOR)} className="px-4 py-2 rounded-lg bg-neutral-800 text-gray-300 text-sm font-bold hover:bg-neutral-700 flex items-center gap-2 [&>svg]:w-4 [&>svg]:h-4"><PencilIcon filled={false} /> প্রশ্ন এডিট করুন</button>
+                  {renderExportButtons({ questions }, `${examType.toUpperCase()} MCQ Set`)}
+              </div>
+          </div>
+          {duplicateGroups.length > 0 && (
+              <div className="mb-6 bg-yellow-500/5 rounded-2xl p-4 border border-yellow-500/20 w-full text-left">
+                  <div className="flex justify-between items-center mb-3">
+                      <p className="text-sm font-bold text-yellow-400">{duplicateGroups.length} টি সম্ভাব্য ডুপ্লিকেট প্রশ্ন</p>
+                      <button onClick={() => mergeDuplicateGroups(duplicateGroups)} className="px-3 py-1 rounded-lg bg-yellow-500/20 text-yellow-300 text-xs font-bold hover:bg-yellow-500/30">সব মার্জ করুন</button>
+                  </div>
+                  <div className="space-y-2 max-h-64 overflow-y-auto pr-1">
+                      {duplicateGroups.map(group => (
+                          <div key={group.keep.id} className="bg-black/40 rounded-xl p-3 border border-neutral-800 text-sm">
+                              <div className="text-white break-words">{renderMathText(group.keep.text)}</div>
+                              {group.duplicates.map(d => (
+                                  <div key={d.id} className="text-gray-500 break-words border-t border-neutral-800 mt-2 pt-2">{renderMathText(d.text)}</div>
+                              ))}
+                              <div className="flex gap-2 mt-2 items-center">
+                                  <span className="text-xs text-secondary font-mono mr-auto">{Math.round(group.similarity * 100)}% মিল</span>
+                                  <button onClick={() => mergeDuplicateGroups([group])} className="px-3 py-1 rounded-lg bg-neutral-800 text-white text-xs font-bold hover:bg-neutral-700">মার্জ</button>
+                                  <button onClick={() => keepDuplicateGroup(group)} className="px-3 py-1 rounded-lg text-gray-400 text-xs hover:text-white">আলাদা রাখুন</button>
+                              </div>
+                          </div>
+                      ))}
+                  </div>
+              </div>
+          )}
+          {needsReviewCount > 0 && (
+              <p className="mb-6 text-sm text-yellow-400 bg-yellow-500/5 border border-yellow-500/20 rounded-xl p-3">{needsReviewCount} টি প্রশ্নের সঠিক উত্তর কোনো অপশনের সাথে মেলেনি। এগুলো যাচাই প্রয়োজন এবং স্কোরে গণনা হবে না।</p>
+          )}
+          <ExamFilterPanel questions={questions} config={examConfig} onChange={(patch) => setExamConfig(prev => ({ ...prev, ...patch }))} />
+          <div className="mb-8 bg-neutral-900 rounded-2xl p-4 border border-neutral-800 w-full text-left">
+              <div className="flex justify-between items-center mb-3">
+                  <p className="text-sm font-bold text-gray-300">মার্কিং স্কিম</p>
+                  <button onClick={() => setScoringRules(DEFAULT_SCORING_RULES[examType])} className="text-xs text-red-400 hover:text-red-300">{examType.toUpperCase()} ডিফল্ট</button>
+              </div>
+              <div className="grid grid-cols-3 gap-3">
+                  {ruleFields.map(field => (
+                      <label key={field.key} className="flex flex-col gap-1">
+                          <span className="text-xs text-secondary">{field.label}</span>
+                          <input type="number" min={0} step={field.step} value={scoringRules[field.key]} onChange={(e) => updateRule(field.key, e.target.value)} className="bg-black border border-neutral-700 rounded-lg px-3 py-2 text-white font-mono text-sm focus:outline-none focus:border-red-500" />
+                      </label>
+                  ))}
+              </div>
+              <p className="text-xs text-secondary mt-3">উত্তর না দিলে কোনো নম্বর কাটা যাবে না।</p>
+          </div>
+          <div className="mb-8 bg-neutral-900 rounded-2xl p-4 border border-neutral-800 w-full text-left">
+              <div className="flex bg-black p-1 rounded-xl mb-4 border border-neutral-800">
+                  <button onClick={() => setExamConfig(prev => ({ ...prev, mode: 'practice' }))} className={`flex-1 px-4 py-2 rounded-lg text-sm font-bold transition-all ${examConfig.mode === 'practice' ? 'bg-red-600 text-white' : 'text-gray-400 hover:text-white'}`}>প্র্যাকটিস</button>
+                  <button onClick={() => setExamConfig(prev => ({ ...prev, mode: 'mock' }))} className={`flex-1 px-4 py-2 rounded-lg text-sm font-bold transition-all ${examConfig.mode === 'mock' ? 'bg-red-600 text-white' : 'text-gray-400 hover:text-white'}`}>মক টেস্ট (সময়সীমা)</button>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                  <label className="flex flex-col gap-1">
+                      <span className="text-xs text-secondary">প্রশ্ন সংখ্যা (০ = সব)</span>
+                      <input type="number" min={0} max={questions.length} value={examConfig.questionCount} onChange={(e) => updateConfig('questionCount', e.target.value)} className="bg-black border border-neutral-700 rounded-lg px-3 py-2 text-white font-mono text-sm focus:outline-none focus:border-red-500" />
+                  </label>
+                  {examConfig.mode === 'mock' && (
+                      <label className="flex flex-col gap-1">
+                          <span className="text-xs text-secondary">সময় (মিনিট)</span>
+                          <input type="number" min={1} value={examConfig.durationMinutes} onChange={(e) => updateConfig('durationMinutes', e.target.value)} className="bg-black border border-neutral-700 rounded-lg px-3 py-2 text-white font-mono text-sm focus:outline-none focus:border-red-500" />
+                      </label>
+                  )}
+              </div>
+              {examConfig.mode === 'mock' && <p className="text-xs text-secondary mt-3">সাবমিট না করা পর্যন্ত সঠিক উত্তর দেখানো হবে না। সময় শেষ হলে পরীক্ষা স্বয়ংক্রিয়ভাবে জমা হবে।</p>}
+          </div>
+          <button onClick={() => startExam()} disabled={paperIsEmpty || (examConfig.mode === 'mock' && examConfig.durationMinutes < 1)} className="w-full bg-red-600 hover:bg-red-500 disabled:bg-neutral-800 disabled:text-neutral-500 text-white font-bold py-4 rounded-xl shadow-lg transition-all transform hover:scale-[1.02]">পরীক্ষা শুরু করুন</button>
+        </div>
+      </div>
+    );
+  };
+
   const renderExam = () => {
-    const q = questions[currentQIndex];
+    const q = examQuestions[currentQIndex];
     if (!q) return null;
     const isAnswered = !!userAnswers[q.id];
+    const showFeedback = isAnswered && !isMockExam && !q.needsReview;
     const hasNote = !!userNotes[q.id];
+    const answeredCount = examQuestions.filter(eq => !!userAnswers[eq.id]).length;
+
+    const confirmSubmit = () => {
+        const unanswered = examQuestions.length - answeredCount;
+        if (unanswered > 0 && !window.confirm(`${unanswered} টি প্রশ্নের উত্তর দেওয়া হয়নি। তবুও জমা দেবেন?`)) return;
+        submitExam();
+    };
 
     return (
       <div className="max-w-4xl mx-auto w-full md:p-4 animate-fade-in">
         <div className="flex justify-between items-center mb-6 px-4 md:px-0">
-            <div className="text-sm font-mono text-secondary">প্রশ্ন {currentQIndex + 1} / {questions.length}</div>
-            <div className={`flex items-center gap-2 px-4 py-2 rounded-full border ${isAnswered ? 'bg-red-900/30 border-red-500/30' : 'bg-neutral-900 border-neutral-800'}`}>
-                <ClockIcon /> <span className="font-mono font-bold text-white">{isAnswered ? `${answerTimes[q.id]}s` : `${Math.floor(timeSpent/60)}:${(timeSpent%60).toString().padStart(2,'0')}`}</span>
-            </div>
+            <div className="text-sm font-mono text-secondary">প্রশ্ন {currentQIndex + 1} / {examQuestions.length}</div>
+            {isMockExam ? (
+                <div className={`flex items-center gap-2 px-4 py-2 rounded-full border ${remainingSeconds <= 60 ? 'bg-red-900/30 border-red-500/50 animate-pulse' : 'bg-neutral-900 border-neutral-800'}`}>
+                    <ClockIcon /> <span className="font-mono font-bold text-white">{formatClock(remainingSeconds)}</span>
+                </div>
+            ) : (
+                <div className={`flex items-center gap-2 px-4 py-2 rounded-full border ${isAnswered ? 'bg-red-900/30 border-red-500/30' : 'bg-neutral-900 border-neutral-800'}`}>
+                    <ClockIcon /> <span className="font-mono font-bold text-white">{isAnswered ? `${answerTimes[q.id]}s` : formatClock(timeSpent)}</span>
+                </div>
+            )}
         </div>
+
+        {isMockExam && (
+            <div className="mb-6 px-4 md:px-0">
+                <div className="flex justify-between items-center mb-2 text-xs text-secondary">
+                    <span>উত্তর দেওয়া: {answeredCount} / {examQuestions.length}</span>
+                    <button onClick={confirmSubmit} className="px-3 py-1 rounded-lg bg-green-600 text-white font-bold">জমা দিন</button>
+                </div>
+                <div className="flex flex-wrap gap-1.5">
+                    {examQuestions.map((eq, idx) => (
+                        <button key={eq.id} onClick={() => goToQuestion(idx)} className={`w-8 h-8 rounded-lg text-xs font-mono font-bold border transition-all ${idx === currentQIndex ? 'border-red-500 text-white' : 'border-neutral-800'} ${userAnswers[eq.id] ? 'bg-red-600/30 text-red-100' : 'bg-neutral-900 text-gray-500'}`}>{idx + 1}</button>
+                    ))}
+                </div>
+            </div>
+        )}
         
         {/* Main Card Container - Full width and borderless on mobile */}
         <div className="md:bg-surface bg-transparent md:rounded-2xl md:p-10 p-0 md:shadow-2xl md:border md:border-neutral-800 border-0 w-full overflow-hidden">
             <div className="flex justify-between items-start gap-4 mb-8 px-4 md:px-0">
-                <div className="text-xl md:text-2xl font-bold text-white leading-relaxed break-words max-w-full overflow-x-auto">{renderMathText(q.text)}</div>
+                <div className="min-w-0">
+                    {q.needsReview && <span className="inline-block mb-3 px-3 py-1 rounded-full bg-yellow-500/10 text-yellow-400 text-xs font-bold border border-yellow-500/20">উত্তর যাচাই প্রয়োজন — স্কোরে গণনা হবে না</span>}
+                    <div className="text-xl md:text-2xl font-bold text-white leading-relaxed break-words max-w-full overflow-x-auto">{renderMathText(q.text)}</div>
+                </div>
                 <div className="flex gap-2 flex-shrink-0">
+                    {q.source && !isMockExam && (
+                        <button onClick={() => setOpenSourceId(openSourceId === q.id ? null : q.id)} title="উৎস দেখুন" className={`${openSourceId === q.id ? 'text-red-400 bg-red-500/10' : 'text-gray-500 hover:text-gray-300'} p-2 rounded-lg transition-all`}>
+                            <DocumentSearchIcon />
+                        </button>
+                    )}
                     <button onClick={() => setShowNoteInput(!showNoteInput)} className={`${showNoteInput || hasNote ? 'text-yellow-400 bg-yellow-500/10' : 'text-gray-500 hover:text-gray-300'} p-2 rounded-lg transition-all`}>
                         <PencilIcon filled={hasNote} />
                     </button>
@@ -392,6 +891,10 @@ function App() {
                 </div>
             </div>
 
+            {q.source && openSourceId === q.id && !isMockExam && (
+                <div className="mb-6 px-4 md:px-0"><SourceViewer source={q.source} onClose={() => setOpenSourceId(null)} /></div>
+            )}
+
             {showNoteInput && (
                 <div className="mb-6 animate-fade-in px-4 md:px-0">
                     <textarea
@@ -408,35 +911,36 @@ function App() {
                     const isSelected = userAnswers[q.id] === option;
                     const isCorrect = option === q.correctAnswer;
                     let cls = "p-4 rounded-xl border-2 text-left transition-all flex items-start w-full overflow-hidden ";
-                    if (isAnswered) cls += isCorrect ? "border-green-600 bg-green-900/20 text-green-100" : isSelected ? "border-red-600 bg-red-900/20 text-red-100" : "border-neutral-800 bg-neutral-900/50 opacity-60";
+                    if (showFeedback) cls += isCorrect ? "border-green-600 bg-green-900/20 text-green-100" : isSelected ? "border-red-600 bg-red-900/20 text-red-100" : "border-neutral-800 bg-neutral-900/50 opacity-60";
+                    else if (isSelected) cls += "border-red-500 bg-red-900/20 text-white";
                     else cls += "border-neutral-800 bg-neutral-900/50 hover:border-red-500/50 hover:bg-neutral-800";
                     return (
-                        <button key={idx} onClick={() => handleAnswerSelect(q.id, option)} disabled={isAnswered} className={cls}>
-                            <span className="w-6 font-mono opacity-50 mr-2 flex-shrink-0">{String.fromCharCode(65 + idx)}.</span>
+                        <button key={idx} onClick={() => handleAnswerSelect(q.id, option)} disabled={showFeedback} className={cls}>
+                            <span className="w-6 font-mono opacity-50 mr-2 flex-shrink-0">{optionLabel(q, idx)}.</span>
                             <span className="flex-1 min-w-0 break-words whitespace-normal text-sm md:text-base">{renderMathText(option, true)}</span>
                         </button>
                     );
                 })}
             </div>
+            {showFeedback && q.explanation && <div className="px-2 md:px-0"><ExplanationBox text={q.explanation} /></div>}
             <div className="mt-8 md:border-t md:border-neutral-800 pt-6 flex justify-between items-center px-4 md:px-0">
-                <button onClick={() => { setCurrentQIndex(prev => prev - 1); setShowExplanation(false); setTimeSpent(0); }} disabled={currentQIndex === 0} className="px-6 py-2.5 rounded-xl bg-neutral-800 text-gray-300 disabled:opacity-0">পূর্ববর্তী</button>
-                <button onClick={() => setShowExplanation(!showExplanation)} className="px-4 py-2 bg-red-500/10 text-red-400 rounded-lg text-sm font-bold flex items-center gap-2"><SparklesIcon /> {showExplanation ? 'টিউটর বন্ধ' : 'AI টিটিউটর'}</button>
-                {currentQIndex < questions.length - 1 ? (
-                    <button onClick={() => { setCurrentQIndex(prev => prev + 1); setShowExplanation(false); setTimeSpent(0); }} className="px-6 py-2.5 rounded-xl bg-white text-black font-bold">পরবর্তী</button>
+                <button onClick={() => goToQuestion(currentQIndex - 1)} disabled={currentQIndex === 0} className="px-6 py-2.5 rounded-xl bg-neutral-800 text-gray-300 disabled:opacity-0">পূর্ববর্তী</button>
+                {!isMockExam && <button onClick={() => setShowExplanation(!showExplanation)} className="px-4 py-2 bg-red-500/10 text-red-400 rounded-lg text-sm font-bold flex items-center gap-2"><SparklesIcon /> {showExplanation ? 'টিউটর বন্ধ' : 'AI টিটিউটর'}</button>}
+                {currentQIndex < examQuestions.length - 1 ? (
+                    <button onClick={() => goToQuestion(currentQIndex + 1)} className="px-6 py-2.5 rounded-xl bg-white text-black font-bold">পরবর্তী</button>
                 ) : (
-                    <button onClick={submitExam} className="px-6 py-2.5 rounded-xl bg-green-600 text-white font-bold">শেষ করুন</button>
+                    <button onClick={isMockExam ? confirmSubmit : submitExam} className="px-6 py-2.5 rounded-xl bg-green-600 text-white font-bold">শেষ করুন</button>
                 )}
             </div>
-            {showExplanation && <AIChat question={q} />}
+            {showExplanation && !isMockExam && <AIChat question={q} chosenAnswer={userAnswers[q.id]} note={userNotes[q.id]} />}
         </div>
       </div>
     );
   };
 
   const renderResults = () => {
-    const correctCount = questions.filter(q => userAnswers[q.id] === q.correctAnswer).length;
-    const totalCount = questions.length;
-    const percentage = totalCount > 0 ? Math.round((correctCount / totalCount) * 100) : 0;
+    const score = computeScore(examQuestions, userAnswers, scoringRules);
+    const percentage = score.percentage;
 
     return (
       <div className="max-w-4xl mx-auto w-full animate-fade-in md:p-6 p-0">
@@ -452,18 +956,33 @@ function App() {
                            <circle cx="50" cy="50" r="46" fill="transparent" stroke="currentColor" strokeWidth="8" className="text-neutral-800"/>
                            <circle cx="50" cy="50" r="46" fill="transparent" stroke="currentColor" strokeWidth="8" strokeDasharray={289} strokeDashoffset={289 - (289 * percentage) / 100} className={percentage >= 80 ? 'text-green-500' : percentage >= 50 ? 'text-yellow-500' : 'text-red-500'} style={{ transition: 'stroke-dashoffset 1s ease-out' }}/>
                        </svg>
-                       <div className="text-center"><span className="text-4xl font-bold text-white block">{correctCount}</span><span className="text-sm text-secondary">/{totalCount}</span></div>
+                       <div className="text-center"><span className="text-4xl font-bold text-white block">{score.netScore}</span><span className="text-sm text-secondary">/{score.maxScore}</span></div>
                   </div>
               </div>
+
+              <div className={`w-fit mx-auto mb-6 px-4 py-1.5 rounded-full text-sm font-bold border ${score.passed ? 'bg-green-900/20 text-green-400 border-green-500/30' : 'bg-red-900/20 text-red-400 border-red-500/30'}`}>
+                  {score.passed ? 'পাস' : 'ফেল'} (পাস মার্ক {scoringRules.passPercentage}%)
+              </div>
               
-              <div className="grid grid-cols-2 gap-4 max-w-sm mx-auto mb-8">
-                   <div className="p-4 rounded-2xl bg-neutral-900 border border-neutral-800"><div className="text-2xl font-bold text-green-400">{correctCount}</div><div className="text-xs text-secondary uppercase tracking-wider">সঠিক</div></div>
-                   <div className="p-4 rounded-2xl bg-neutral-900 border border-neutral-800"><div className="text-2xl font-bold text-red-400">{totalCount - correctCount}</div><div className="text-xs text-secondary uppercase tracking-wider">ভুল</div></div>
+              <div className="grid grid-cols-3 gap-4 max-w-md mx-auto mb-4">
+                   <div className="p-4 rounded-2xl bg-neutral-900 border border-neutral-800"><div className="text-2xl font-bold text-green-400">{score.correct}</div><div className="text-xs text-secondary uppercase tracking-wider">সঠিক</div></div>
+                   <div className="p-4 rounded-2xl bg-neutral-900 border border-neutral-800"><div className="text-2xl font-bold text-red-400">{score.wrong}</div><div className="text-xs text-secondary uppercase tracking-wider">ভুল</div></div>
+                   <div className="p-4 rounded-2xl bg-neutral-900 border border-neutral-800"><div className="text-2xl font-bold text-gray-300">{score.skipped}</div><div className="text-xs text-secondary uppercase tracking-wider">বাদ</div></div>
+              </div>
+
+              <div className="grid grid-cols-3 gap-4 max-w-md mx-auto mb-8 text-sm">
+                   <div className="p-3 rounded-xl bg-neutral-900/50 border border-neutral-800"><div className="font-bold text-white font-mono">{score.grossScore}</div><div className="text-xs text-secondary">মোট প্রাপ্ত</div></div>
+                   <div className="p-3 rounded-xl bg-neutral-900/50 border border-neutral-800"><div className="font-bold text-red-400 font-mono">−{score.penalty}</div><div className="text-xs text-secondary">নেগেটিভ মার্কিং</div></div>
+                   <div className="p-3 rounded-xl bg-neutral-900/50 border border-neutral-800"><div className="font-bold text-green-400 font-mono">{score.netScore}</div><div className="text-xs text-secondary">নিট স্কোর</div></div>
               </div>
+              {score.needsReview > 0 && <p className="text-xs text-yellow-400 mb-8 -mt-4">{score.needsReview} টি প্রশ্ন উত্তর যাচাই প্রয়োজন বলে স্কোরে ধরা হয়নি।</p>}
 
               <div className="flex flex-wrap gap-4 justify-center">
                   <button onClick={() => setStep(AppStep.UPLOAD)} className="px-6 py-3 rounded-xl bg-neutral-800 text-white hover:bg-neutral-700 transition-colors font-medium">নতুন ফাইল আপলোড</button>
-                  <button onClick={startExam} className="px-6 py-3 rounded-xl bg-red-600 text-white hover:bg-red-500 transition-colors font-bold shadow-lg shadow-red-500/20">পুনরায় পরীক্ষা</button>
+                  <button onClick={() => startExam()} className="px-6 py-3 rounded-xl bg-red-600 text-white hover:bg-red-500 transition-colors font-bold shadow-lg shadow-red-500/20">পুনরায় পরীক্ষা</button>
+                  <button onClick={() => setStep(AppStep.ANSWER_REVIEW)} className="px-6 py-3 rounded-xl bg-neutral-800 text-white hover:bg-neutral-700 transition-colors font-medium">উত্তর পর্যালোচনা</button>
+                  <button onClick={() => setStep(AppStep.ANALYTICS)} className="px-6 py-3 rounded-xl bg-neutral-800 text-white hover:bg-neutral-700 transition-colors font-medium">বিশ্লেষণ</button>
+                  {dueReviewCount > 0 && <button onClick={startReview} className="px-6 py-3 rounded-xl bg-neutral-800 text-yellow-400 border border-yellow-500/20 hover:bg-yellow-500/10 transition-colors font-bold">রিভিউ ({dueReviewCount})</button>}
                   <button onClick={() => handleDownloadPDF(questions, 'Full Exam Questions', 'questions')} className="px-6 py-3 rounded-xl bg-neutral-800 text-emerald-400 border border-emerald-500/20 hover:bg-emerald-500/10 transition-colors font-bold flex items-center gap-2">
                      <DownloadIcon /> প্রশ্ন ডাউনলোড
                   </button>
@@ -485,7 +1004,10 @@ function App() {
     <div className="max-w-4xl mx-auto w-full md:p-4 p-0 md:space-y-6 space-y-0 animate-fade-in">
         <div className="flex justify-between items-center mb-6 px-4 pt-4 md:px-0">
             <h2 className="text-2xl font-bold text-white flex items-center gap-3"><NoteIcon /> {examType.toUpperCase()} শর্ট নোটস</h2>
-            <button onClick={() => handleDownloadPDF(notes, `${examType.toUpperCase()} Study Notes`, 'notes')} className="px-4 py-2 bg-emerald-600 text-white rounded-lg flex items-center gap-2 text-sm font-bold"><DownloadIcon /> ডাউনলোড</button>
+            <div className="flex gap-2">
+                {renderExportButtons({ notes }, `${examType.toUpperCase()} Study Notes`, ['json'])}
+                <button onClick={() => handleDownloadPDF(notes, `${examType.toUpperCase()} Study Notes`, 'notes')} className="px-4 py-2 bg-emerald-600 text-white rounded-lg flex items-center gap-2 text-sm font-bold"><DownloadIcon /> ডাউনলোড</button>
+            </div>
         </div>
         {notes.map(n => (
             <div key={n.id} className="md:bg-surface bg-transparent md:p-6 p-5 md:rounded-2xl md:border md:border-neutral-800 border-b border-neutral-900 md:shadow-xl shadow-none">
@@ -505,7 +1027,10 @@ function App() {
       <div className="max-w-4xl mx-auto w-full md:p-4 p-0 animate-fade-in">
           <div className="flex justify-between items-center mb-8 px-4 pt-4 md:px-0">
               <h2 className="text-2xl font-bold text-white flex items-center gap-3"><SparklesIcon /> {examType === 'buet' ? 'BUET লিখিত প্রস্তুতি' : 'ইঞ্জিনিয়ারিং লিখিত প্রশ্ন'}</h2>
-              <button onClick={() => handleDownloadPDF(writtenQuestions, `${examType.toUpperCase()} Written Prep`, 'written')} className="px-4 py-2 bg-emerald-600 text-white rounded-lg flex items-center gap-2 text-sm font-bold"><DownloadIcon /> ডাউনলোড</button>
+              <div className="flex gap-2">
+                  {renderExportButtons({ writtenQuestions }, `${examType.toUpperCase()} Written Prep`)}
+                  <button onClick={() => handleDownloadPDF(writtenQuestions, `${examType.toUpperCase()} Written Prep`, 'written')} className="px-4 py-2 bg-emerald-600 text-white rounded-lg flex items-center gap-2 text-sm font-bold"><DownloadIcon /> ডাউনলোড</button>
+              </div>
           </div>
           <div className="md:space-y-6 space-y-0">
               {writtenQuestions.map((item, idx) => (
@@ -513,11 +1038,24 @@ function App() {
                       <div className="md:p-6 p-5">
                           <div className="flex justify-between items-start mb-4">
                               <span className="bg-neutral-900 text-red-400 text-xs font-bold px-3 py-1 rounded-full uppercase">{item.subject} • {item.type}</span>
-                              <span className="text-sm font-bold text-gray-400">{item.marks} Marks</span>
+                              <div className="flex items-center gap-2">
+                                  {item.source && (
+                                      <button onClick={() => setOpenSourceId(openSourceId === item.id ? null : item.id)} title="উৎস দেখুন" className={`${openSourceId === item.id ? 'text-red-400' : 'text-gray-500 hover:text-gray-300'} [&>svg]:w-5 [&>svg]:h-5`}>
+                                          <DocumentSearchIcon />
+                                      </button>
+                                  )}
+                                  {writtenGrades[item.id]?.[0] && <span className="text-xs font-mono text-secondary" title="সর্বশেষ মূল্যায়ন">{writtenGrades[item.id][0].score}/{writtenGrades[item.id][0].maxMarks}</span>}
+                                  <span className="text-sm font-bold text-gray-400">{item.marks} Marks</span>
+                              </div>
                           </div>
                           <div className="text-xl font-bold text-white mb-6 leading-relaxed break-words">{renderMathText(item.question)}</div>
-                          <button onClick={() => setVisibleAnswers(prev => { const n = new Set(prev); if(n.has(item.id)) n.delete(item.id); else n.add(item.id); return n; })} className="w-full py-3 bg-neutral-900 border border-neutral-800 rounded-xl text-sm font-bold text-gray-300">{visibleAnswers.has(item.id) ? 'উত্তর লুকান' : 'মডেল সমাধান দেখুন'}</button>
+                          {item.source && openSourceId === item.id && <div className="mb-6"><SourceViewer source={item.source} onClose={() => setOpenSourceId(null)} /></div>}
+                          <div className="flex gap-2">
+                              <button onClick={() => setPracticeWrittenId(practiceWrittenId === item.id ? null : item.id)} className={`flex-1 py-3 border rounded-xl text-sm font-bold ${practiceWrittenId === item.id ? 'bg-red-500/10 border-red-500/30 text-red-400' : 'bg-neutral-900 border-neutral-800 text-gray-300'}`}>{practiceWrittenId === item.id ? 'অনুশীলন বন্ধ' : 'নিজে উত্তর দিন'}</button>
+                              <button onClick={() => setVisibleAnswers(prev => { const n = new Set(prev); if(n.has(item.id)) n.delete(item.id); else n.add(item.id); return n; })} className="flex-1 py-3 bg-neutral-900 border border-neutral-800 rounded-xl text-sm font-bold text-gray-300">{visibleAnswers.has(item.id) ? 'উত্তর লুকান' : 'মডেল সমাধান দেখুন'}</button>
+                          </div>
                       </div>
+                      {practiceWrittenId === item.id && <WrittenPractice question={item} history={writtenGrades[item.id] || []} onGraded={recordGrade} />}
                       {visibleAnswers.has(item.id) && (
                           <div className="bg-neutral-900/50 p-6 border-t border-neutral-800 border-l-4 border-l-red-600">
                               <h4 className="text-sm font-bold text-red-400 mb-3 uppercase">ধাপে ধাপে সমাধান:</h4>
@@ -547,24 +1085,21 @@ function App() {
             </div>
         )}
         <main className="flex flex-col items-center w-full">
+            {!isProcessing && incompleteFiles.length > 0 && [AppStep.UPLOAD, AppStep.SETUP, AppStep.NOTES_VIEW, AppStep.WRITTEN_VIEW].includes(step) && renderExtractionIssue()}
             {step === AppStep.UPLOAD && renderUpload()}
-            {step === AppStep.SETUP && (
-                <div className="flex flex-col items-center justify-center min-h-[50vh] animate-fade-in p-4">
-                  <div className="md:bg-surface bg-transparent md:p-8 p-4 md:rounded-3xl md:shadow-2xl w-full max-w-lg md:border md:border-neutral-800 border-0 text-center">
-                    <h2 className="text-3xl font-bold mb-4 text-white">{examType.toUpperCase()} স্ট্যান্ডার্ড প্রশ্ন তৈরি</h2>
-                    <div className="flex flex-col items-center justify-center mb-8 bg-neutral-900 rounded-2xl p-6 border border-neutral-800 w-full">
-                        <p className="text-secondary text-sm mb-2">রেডি প্রশ্ন</p>
-                        <p className="text-5xl font-bold text-white">{questions.length}</p>
-                    </div>
-                    <button onClick={startExam} className="w-full bg-red-600 hover:bg-red-500 text-white font-bold py-4 rounded-xl shadow-lg transition-all transform hover:scale-[1.02]">পরীক্ষা শুরু করুন</button>
-                  </div>
-                </div>
-            )}
+            {step === AppStep.SETUP && renderSetup()}
             {step === AppStep.EXAM && renderExam()}
             {step === AppStep.RESULTS && renderResults()}
             {step === AppStep.NOTES_VIEW && renderNotesView()}
             {step === AppStep.WRITTEN_VIEW && renderWrittenView()}
+            {step === AppStep.REVIEW && <ReviewSession cards={reviewDeck} onExit={exitReview} />}
+            {step === AppStep.ANSWER_REVIEW && (
+                <AnswerReview questions={examQuestions} answers={userAnswers} answerTimes={answerTimes} notes={userNotes} favorites={favorites} onRetakeWrong={retakeWrong} onClose={() => setStep(AppStep.RESULTS)} />
+            )}
+            {step === AppStep.ANALYTICS && <AnalyticsDashboard sessions={examSessions} onPractice={practiceWeakArea} onClose={() => setStep(AppStep.UPLOAD)} />}
+            {step === AppStep.EDITOR && <QuestionEditor questions={questions} onChange={setQuestions} onClose={() => setStep(AppStep.SETUP)} />}
         </main>
+        {pendingPdf && <PdfOptionsDialog type={pendingPdf.type} onConfirm={printPendingPdf} onCancel={() => setPendingPdf(null)} />}
       </div>
     </div>
   );
@@ -0,0 +1,43 @@
+// Fixed-window request counter per client. State lives in the function instance's memory, so on
+// Vercel each warm instance counts separately; it blunts scripted abuse rather than enforcing an exact quota.
+
+const WINDOW_MS = 60_000;
+const DEFAULT_LIMIT = 30;
+
+interface RateWindow {
+    startedAt: number;
+    count: number;
+}
+
+const windows = new Map<string, RateWindow>();
+
+export const requestsPerMinute = (): number => {
+    const configured = Number(process.env.RATE_LIMIT_PER_MINUTE);
+    return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_LIMIT;
+};
+
+// Vercel and most proxies put the original client first in x-forwarded-for
+export const clientIdFor = (request: Request): string => {
+    const forwarded = request.headers.get('x-forwarded-for');
+    if (forwarded) return forwarded.split(',')[0].trim();
+    return request.headers.get('x-real-ip') || 'anonymous';
+};
+
+const pruneExpired = (now: number) => {
+    windows.forEach((w, key) => {
+        if (now - w.startedAt >= WINDOW_MS) windows.delete(key);
+    });
+};
+
+// Returns 0 when the request may proceed, otherwise the seconds until the client's window resets
+export const takeToken = (clientId: string, limit = requestsPerMinute(), now = Date.now()): number => {
+    if (windows.size > 10_000) pruneExpired(now);
+    const current = windows.get(clientId);
+    if (!current || now - current.startedAt >= WINDOW_MS) {
+        windows.set(clientId, { startedAt: now, count: 1 });
+        return 0;
+    }
+    if (current.count >= limit) return Math.ceil((current.startedAt + WINDOW_MS - now) / 1000);
+    current.count++;
+    return 0;
+};
@@ -0,0 +1,271 @@
+import { ChatMessage, Difficulty, ExamType, GenerationSettings } from "../../types";
+import { FilePart, LLMProvider, LLMTask } from "../../services/llmProvider";
+import { TASK_SCHEMAS } from "../../services/schemas";
+import { Excerpt, MAX_SOURCE_CHARS, TaskParams, TutorParams, buildPrompt, buildTutorInstruction } from "../../services/prompts";
+import { DIFFICULTIES, QUESTION_KINDS, planGeneration } from "../../services/generationPlan";
+import { SUBJECTS } from "../../services/examBuilder";
+import { STATUS_FOR_KIND, toLLMError } from "../../services/llmErrors";
+import { createGeminiProvider } from "../../services/providers/geminiProvider";
+import { createOpenAICompatibleProvider } from "../../services/providers/openAICompatibleProvider";
+import { createMockProvider } from "../../services/providers/mockProvider";
+import { clientIdFor, takeToken } from "./rateLimit";
+
+// Prompts are built here from task parameters, so clients can only fill in the app's own templates.
+// The limits are generous for real questions and transcripts, small enough to keep the key from being a general relay.
+const MAX_FIELD_CHARS = 16_000;
+const MAX_LABEL_CHARS = 200;
+const MAX_OPTION_CHARS = 2_000;
+const MAX_OPTIONS = 5;
+const MAX_KNOWN_ITEMS = 500;
+const MAX_ITERATIONS = 20;
+const MAX_PAGES = 5_000;
+const MAX_GENERATION_COUNT = 200;
+const MAX_LETTERINGS = 10;
+const MAX_TURN_CHARS = 32_000;
+const MAX_MESSAGE_CHARS = 8_000;
+const MAX_HISTORY_TURNS = 60;
+const EXAM_TYPES: ExamType[] = ['varsity', 'ckruet', 'buet'];
+const ALLOWED_FILE_TYPES = /^(application\/pdf|image\/(png|jpe?g|webp|heic|heif))$/;
+
+let serverProvider: LLMProvider | null = null;
+
+// Looked up by name so the dev server's `define`, which blanks keys for the browser bundle, cannot rewrite it
+const serverEnv = (key: string): string | undefined => process.env[key];
+
+// API_LLM_PROVIDER picks the backend behind the routes; LLM_PROVIDER is the browser's setting and is normally "proxy"
+const getServerProvider = (): LLMProvider => {
+    if (serverProvider) return serverProvider;
+    switch ((serverEnv('API_LLM_PROVIDER') || 'gemini').toLowerCase()) {
+        case 'openai': serverProvider = createOpenAICompatibleProvider(serverEnv('OPENAI_API_KEY')); break;
+        case 'mock': serverProvider = createMockProvider(); break;
+        default: serverProvider = createGeminiProvider(serverEnv('GEMINI_API_KEY') || serverEnv('API_KEY'));
+    }
+    return serverProvider;
+};
+
+const jsonResponse = (status: number, body: object, headers: Record<string, string> = {}): Response =>
+    new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+
+class BadRequest extends Error {}
+
+const rateLimited = (request: Request): Response | null => {
+    const retryAfter = takeToken(clientIdFor(request));
+    if (retryAfter === 0) return null;
+    return jsonResponse(429, { error: `Too many requests. Try again in ${retryAfter}s.`, kind: 'quota' }, { 'Retry-After': String(retryAfter) });
+};
+
+const readJson = async (request: Request): Promise<Record<string, unknown>> => {
+    try {
+        const body = await request.json();
+        if (body && typeof body === 'object' && !Array.isArray(body)) return body as Record<string, unknown>;
+    } catch (e) {}
+    throw new BadRequest("Request body must be a JSON object.");
+};
+
+const requireText = (value: unknown, field: string, maxChars: number): string => {
+    if (typeof value !== 'string' || !value.trim()) throw new BadRequest(`"${field}" is required.`);
+    if (value.length > maxChars) throw new BadRequest(`"${field}" is longer than ${maxChars} characters.`);
+    return value;
+};
+
+const optionalText = (value: unknown, field: string, maxChars: number): string | undefined => {
+    if (value === undefined || value === null || value === '') return undefined;
+    if (typeof value !== 'string') throw new BadRequest(`"${field}" must be text.`);
+    if (value.length > maxChars) throw new BadRequest(`"${field}" is longer than ${maxChars} characters.`);
+    return value;
+};
+
+const readObject = (value: unknown, field: string): Record<string, unknown> => {
+    if (value && typeof value === 'object' && !Array.isArray(value)) return value as Record<string, unknown>;
+    throw new BadRequest(`"${field}" must be an object.`);
+};
+
+const readArray = (value: unknown, field: string, maxItems: number): unknown[] => {
+    if (!Array.isArray(value) || value.length > maxItems) throw new BadRequest(`"${field}" must be an array of at most ${maxItems} items.`);
+    return value;
+};
+
+const readTexts = (value: unknown, field: string, maxItems: number, maxChars: number): string[] =>
+    readArray(value, field, maxItems).map(item => {
+        if (typeof item !== 'string' || item.length > maxChars) throw new BadRequest(`"${field}" items must be text of at most ${maxChars} characters.`);
+        return item;
+    });
+
+const readNumber = (value: unknown, field: string, min: number, max: number): number => {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) throw new BadRequest(`"${field}" must be a number from ${min} to ${max}.`);
+    return value;
+};
+
+const readInteger = (value: unknown, field: string, min: number, max: number): number => {
+    const n = readNumber(value, field, min, max);
+    if (!Number.isInteger(n)) throw new BadRequest(`"${field}" must be a whole number.`);
+    return n;
+};
+
+const readOneOf = <T extends string>(value: unknown, field: string, allowed: T[]): T => {
+    if (!allowed.includes(value as T)) throw new BadRequest(`"${field}" must be one of ${allowed.join(', ')}.`);
+    return value as T;
+};
+
+const readExcerpt = (value: unknown): Excerpt | undefined => {
+    if (value === undefined || value === null) return undefined;
+    const excerpt = readObject(value, 'params.excerpt');
+    const pageCount = readInteger(excerpt.pageCount, 'params.excerpt.pageCount', 1, MAX_PAGES);
+    const startPage = readInteger(excerpt.startPage, 'params.excerpt.startPage', 1, pageCount);
+    return { startPage, endPage: readInteger(excerpt.endPage, 'params.excerpt.endPage', startPage, pageCount), pageCount };
+};
+
+const readSettings = (value: unknown): GenerationSettings => {
+    const settings = readObject(value, 'params.settings');
+    const mix = readObject(settings.difficultyMix, 'params.settings.difficultyMix');
+    return {
+        count: readInteger(settings.count, 'params.settings.count', 0, MAX_GENERATION_COUNT),
+        difficultyMix: Object.fromEntries(DIFFICULTIES.map(d => [d, readNumber(mix[d], `params.settings.difficultyMix.${d}`, 0, 100)])) as Record<Difficulty, number>,
+        kinds: readArray(settings.kinds, 'params.settings.kinds', QUESTION_KINDS.length).map(k => readOneOf(k, 'params.settings.kinds', QUESTION_KINDS)),
+        subjects: readArray(settings.subjects, 'params.settings.subjects', SUBJECTS.length).map(s => readOneOf(s, 'params.settings.subjects', SUBJECTS)),
+    };
+};
+
+// Checks each task's parameters; the prompt is then built from them exactly as the browser would
+const PARAM_READERS: { [T in LLMTask]: (params: Record<string, unknown>, file?: FilePart) => TaskParams[T] } = {
+    extract: params => ({
+        iteration: readInteger(params.iteration, 'params.iteration', 1, MAX_ITERATIONS),
+        excerpt: readExcerpt(params.excerpt),
+        known: readTexts(params.known, 'params.known', MAX_KNOWN_ITEMS, MAX_LABEL_CHARS),
+        explain: params.explain === true,
+    }),
+    generate: params => {
+        const examType = readOneOf(params.examType, 'params.examType', EXAM_TYPES);
+        const settings = readSettings(params.settings);
+        const batches = planGeneration(examType, settings).length;
+        return { examType, settings, batch: readInteger(params.batch, 'params.batch', 0, batches - 1), explain: params.explain === true };
+    },
+    notes: params => ({ examType: readOneOf(params.examType, 'params.examType', EXAM_TYPES) }),
+    written: params => ({
+        iteration: readInteger(params.iteration, 'params.iteration', 1, MAX_ITERATIONS),
+        excerpt: readExcerpt(params.excerpt),
+        known: readTexts(params.known, 'params.known', MAX_KNOWN_ITEMS, MAX_LABEL_CHARS),
+    }),
+    grade: (params, file) => ({
+        subject: requireText(params.subject, 'params.subject', MAX_LABEL_CHARS),
+        type: requireText(params.type, 'params.type', MAX_LABEL_CHARS),
+        question: requireText(params.question, 'params.question', MAX_FIELD_CHARS),
+        solution: requireText(params.solution, 'params.solution', MAX_FIELD_CHARS),
+        maxMarks: readNumber(params.maxMarks, 'params.maxMarks', 0, 100),
+        typed: optionalText(params.typed, 'params.typed', MAX_FIELD_CHARS) ?? '',
+        hasImage: !!file,
+    }),
+};
+
+const readTutor = (value: unknown): TutorParams => {
+    const tutor = readObject(value, 'tutor');
+    const question = readObject(tutor.question, 'tutor.question');
+    const context = tutor.context === undefined ? {} : readObject(tutor.context, 'tutor.context');
+    const source = question.source === undefined ? undefined : readObject(question.source, 'tutor.question.source');
+    return {
+        question: {
+            text: optionalText(question.text, 'tutor.question.text', MAX_FIELD_CHARS) ?? '',
+            options: readTexts(question.options, 'tutor.question.options', MAX_OPTIONS, MAX_OPTION_CHARS),
+            correctAnswer: optionalText(question.correctAnswer, 'tutor.question.correctAnswer', MAX_OPTION_CHARS) ?? '',
+            needsReview: question.needsReview === true,
+            explanation: optionalText(question.explanation, 'tutor.question.explanation', MAX_FIELD_CHARS),
+            ...(source && {
+                source: {
+                    fileName: optionalText(source.fileName, 'tutor.question.source.fileName', MAX_LABEL_CHARS) ?? '',
+                    ...(source.page !== undefined && { page: readInteger(source.page, 'tutor.question.source.page', 1, MAX_PAGES) }),
+                },
+            }),
+        },
+        context: {
+            chosenAnswer: optionalText(context.chosenAnswer, 'tutor.context.chosenAnswer', MAX_OPTION_CHARS),
+            note: optionalText(context.note, 'tutor.context.note', MAX_FIELD_CHARS),
+            sourceText: optionalText(context.sourceText, 'tutor.context.sourceText', MAX_SOURCE_CHARS),
+            earlierLetterings: context.earlierLetterings === undefined
+                ? undefined
+                : readArray(context.earlierLetterings, 'tutor.context.earlierLetterings', MAX_LETTERINGS).map(order => readTexts(order, 'tutor.context.earlierLetterings', MAX_OPTIONS, MAX_OPTION_CHARS)),
+        },
+        trimmed: tutor.trimmed === true,
+    };
+};
+
+const readFile = (value: unknown): FilePart | undefined => {
+    if (value === undefined || value === null) return undefined;
+    const file = value as Partial<FilePart>;
+    if (typeof file.mimeType !== 'string' || typeof file.data !== 'string') throw new BadRequest('"file" must have mimeType and data.');
+    if (!ALLOWED_FILE_TYPES.test(file.mimeType)) throw new BadRequest(`Unsupported file type ${file.mimeType}.`);
+    return { mimeType: file.mimeType, data: file.data };
+};
+
+const readHistory = (value: unknown): ChatMessage[] => {
+    if (value === undefined) return [];
+    if (!Array.isArray(value) || value.length > MAX_HISTORY_TURNS) throw new BadRequest(`"history" must be an array of at most ${MAX_HISTORY_TURNS} messages.`);
+    return value.map(m => ({
+        role: m?.role === 'model' ? 'model' : 'user',
+        text: requireText(m?.text, 'history.text', MAX_TURN_CHARS),
+    }));
+};
+
+const failure = (error: unknown): Response => {
+    if (error instanceof BadRequest) return jsonResponse(400, { error: error.message });
+    const llmError = toLLMError(error);
+    if (llmError.kind !== 'aborted') console.error(error);
+    const headers: Record<string, string> = llmError.retryAfterMs ? { 'Retry-After': String(Math.ceil(llmError.retryAfterMs / 1000)) } : {};
+    return jsonResponse(STATUS_FOR_KIND[llmError.kind], { error: llmError.message, kind: llmError.kind }, headers);
+};
+
+/** POST { params, file? } → { text }, where text is the model's JSON for the task's schema. */
+export const structuredRoute = (task: LLMTask) => async (request: Request): Promise<Response> => {
+    const limited = rateLimited(request);
+    if (limited) return limited;
+    try {
+        const body = await readJson(request);
+        const file = readFile(body.file);
+        const params = PARAM_READERS[task](readObject(body.params, 'params'), file);
+        const text = await getServerProvider().generateStructured({
+            task,
+            prompt: buildPrompt(task, params),
+            params,
+            schema: TASK_SCHEMAS[task],
+            file,
+            signal: request.signal,
+        });
+        return jsonResponse(200, { text });
+    } catch (error) {
+        return failure(error);
+    }
+};
+
+/** POST { tutor, history?, message } → the reply streamed as plain text. */
+export const chatRoute = async (request: Request): Promise<Response> => {
+    const limited = rateLimited(request);
+    if (limited) return limited;
+    try {
+        const body = await readJson(request);
+        const tutor = readTutor(body.tutor);
+        const chat = getServerProvider().createChat({
+            systemInstruction: buildTutorInstruction(tutor),
+            tutor,
+            history: readHistory(body.history),
+        });
+        const deltas = chat.sendMessageStream(requireText(body.message, 'message', MAX_MESSAGE_CHARS), request.signal)[Symbol.asyncIterator]();
+        // Wait for the first delta so upstream failures still surface as an error status instead of a cut-off stream
+        const first = await deltas.next();
+        const encoder = new TextEncoder();
+        const stream = new ReadableStream<Uint8Array>({
+            async start(controller) {
+                try {
+                    if (!first.done) controller.enqueue(encoder.encode(first.value));
+                    for (let next = await deltas.next(); !next.done; next = await deltas.next()) {
+                        controller.enqueue(encoder.encode(next.value));
+                    }
+                    controller.close();
+                } catch (error) {
+                    controller.error(error);
+                }
+            },
+        });
+        return new Response(stream, { headers: { 'Content-Type': 'text/plain; charset=utf-8', 'Cache-Control': 'no-cache' } });
+    } catch (error) {
+        return failure(error);
+    }
+};
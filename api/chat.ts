@@ -0,0 +1,3 @@
+import { chatRoute } from "./_lib/routes";
+
+export const POST = chatRoute;
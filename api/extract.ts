@@ -0,0 +1,3 @@
+import { structuredRoute } from "./_lib/routes";
+
+export const POST = structuredRoute('extract');
@@ -1,23 +1,60 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Chat } from "@google/genai";
 import ReactMarkdown from 'react-markdown';
 import remarkMath from 'remark-math';
 import rehypeKatex from 'rehype-katex';
 import { ChatMessage, Question } from '../types';
 import { createTutoringChat } from '../services/geminiService';
-import { SendIcon, SparklesIcon } from './Icons';
+import { TUTOR_OPENING_PROMPT, TutorContext } from '../services/prompts';
+import { readSourceText } from '../services/sourceFiles';
+import { loadTranscript, saveTranscript, withLettering } from '../services/tutorTranscripts';
+import { LLMErrorKind, LLM_ERROR_LABELS, toLLMError } from '../services/llmErrors';
+import { CopyIcon, PencilIcon, RefreshIcon, SendIcon, SparklesIcon, StopIcon } from './Icons';
 
 interface AIChatProps {
   question: Question;
+  chosenAnswer?: string; // the option the student picked, if any
+  note?: string; // the student's note on this question
 }
 
-const AIChat: React.FC<AIChatProps> = ({ question }) => {
+// One-tap follow-ups: the label is what the student sees in the chat, the prompt what the tutor is asked
+interface FollowUp {
+  label: string;
+  prompt: string;
+  whenWrong?: boolean; // only offered after a wrong answer
+}
+
+const FOLLOW_UPS: FollowUp[] = [
+  { label: 'আমার উত্তর কেন ভুল?', prompt: 'Why is the option I chose wrong? Point out the exact step or idea that leads to it.', whenWrong: true },
+  { label: 'একই রকম আরেকটি প্রশ্ন', prompt: 'Give me one new MCQ on the same concept with different values, with options. Put the answer and a short solution at the end under the heading "উত্তর".' },
+  { label: 'শর্টকাট টেকনিক', prompt: 'Is there a shortcut, trick or option-elimination strategy to solve this quickly in the exam hall? Explain it briefly.' },
+  { label: 'মূল ধারণা সহজ করে', prompt: 'Explain the underlying concept in simple words, as if to a student seeing it for the first time.' },
+];
+
+// Chips show a short label; resending one (regenerate, retry) should ask the full question again
+const promptFor = (text: string) => FOLLOW_UPS.find(f => f.label === text)?.prompt ?? text;
+
+const withoutStreaming = (messages: ChatMessage[]): ChatMessage[] =>
+  messages.filter(m => !m.isStreaming || m.text).map(({ role, text }) => ({ role, text }));
+
+const AIChat: React.FC<AIChatProps> = ({ question, chosenAnswer, note }) => {
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const chatSession = useRef<Chat | null>(null);
+  const [error, setError] = useState<{ kind: LLMErrorKind; retry: () => void } | null>(null);
+  const [editing, setEditing] = useState<{ index: number; text: string } | null>(null);
+  const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
+  const messagesRef = useRef<ChatMessage[]>([]); // latest messages, for handlers that run mid-stream
+  const contextRef = useRef<TutorContext>({});
+  const controllerRef = useRef<AbortController | null>(null); // the reply in flight, if any
+  const loadedFor = useRef<number | null>(null); // question whose saved transcript `messages` now holds
+  const letteringsRef = useRef<string[][]>([]); // option orders the transcript's letters refer to, saved with it
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
+  const show = (next: ChatMessage[]) => {
+    messagesRef.current = next;
+    setMessages(next);
+  };
+
   const scrollToBottom = () => {
     // block: 'nearest' prevents the whole page from jumping if the chat is partly out of view
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
@@ -27,81 +64,151 @@ const AIChat: React.FC<AIChatProps> = ({ question }) => {
     scrollToBottom();
   }, [messages]);
 
-  // Initialize chat when component mounts or question changes
+  // Saved after every finished reply, so leaving the question mid-conversation loses nothing
   useEffect(() => {
-    const initChat = async () => {
-      setIsLoading(true);
-      setMessages([]); // Clear previous messages
-      try {
-        chatSession.current = createTutoringChat(question);
-        
-        // Initial explanation prompt
-        const initialPrompt = "Explain the solution in Bengali. Use LaTeX formatting ($...$) for all math formulas.";
-        
-        await streamResponse(initialPrompt);
-      } catch (error) {
-        console.error("Failed to init chat", error);
-        setMessages(prev => [...prev, { role: 'model', text: "AI টিউটর সংযোগ বিচ্ছিন্ন হয়েছে।" }]);
-      } finally {
-        setIsLoading(false);
-      }
-    };
-
-    initChat();
+    if (loadedFor.current !== question.id || messages.some(m => m.isStreaming)) return;
+    saveTranscript(question.id, messages, letteringsRef.current).catch(err => console.error("Failed to save tutor transcript", err));
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [question]);
+  }, [messages]);
 
-  const streamResponse = async (prompt: string) => {
-    if (!chatSession.current) return;
+  /**
+   * Asks `prompt` after `history`, on a chat session rebuilt from that history so regenerating and editing can
+   * branch from any point. `shown` is the user's turn as displayed; the hidden opening prompt has none.
+   * Starting a new reply stops the one in flight, keeping what it had written.
+   */
+  const ask = async (history: ChatMessage[], prompt: string, shown?: string) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    const base: ChatMessage[] = shown !== undefined ? [...history, { role: 'user', text: shown }] : history;
+    const isCurrent = () => controllerRef.current === controller;
 
+    setError(null);
     setIsLoading(true);
-    // Add placeholder for model response
-    setMessages(prev => [...prev, { role: 'model', text: '', isStreaming: true }]);
+    show([...base, { role: 'model', text: '', isStreaming: true }]);
 
+    let fullText = '';
     try {
-      const result = await chatSession.current.sendMessageStream({ message: prompt });
-      
-      let fullText = '';
-      for await (const chunk of result) {
-        const text = chunk.text || '';
+      const session = createTutoringChat(question, contextRef.current, history);
+      for await (const text of session.sendMessageStream(prompt, controller.signal)) {
+        if (!isCurrent()) return;
+        if (controller.signal.aborted) break; // for providers that finish the stream instead of throwing
         fullText += text;
-        
-        setMessages(prev => {
-          const newHistory = [...prev];
-          const lastMsg = newHistory[newHistory.length - 1];
-          if (lastMsg.role === 'model' && lastMsg.isStreaming) {
-            lastMsg.text = fullText;
-          }
-          return newHistory;
-        });
+        show([...base, { role: 'model', text: fullText, isStreaming: true }]);
       }
-      
-      // Finalize message
-      setMessages(prev => {
-         const newHistory = [...prev];
-         const lastMsg = newHistory[newHistory.length - 1];
-         lastMsg.isStreaming = false;
-         return newHistory;
-      });
-
+      if (isCurrent()) show([...base, { role: 'model', text: fullText }]);
     } catch (e) {
-      console.error(e);
-      setMessages(prev => [...prev, { role: 'model', text: 'উত্তর পেতে সমস্যা হয়েছে।' }]);
+      if (!isCurrent()) return;
+      const err = toLLMError(e);
+      // Stopping keeps the partial reply; a failure drops it and offers the same request again
+      show(fullText && err.kind === 'aborted' ? [...base, { role: 'model', text: fullText }] : base);
+      if (err.kind !== 'aborted') {
+        console.error(e);
+        setError({ kind: err.kind, retry: () => ask(history, prompt, shown) });
+      }
     } finally {
-      setIsLoading(false);
+      if (isCurrent()) {
+        controllerRef.current = null;
+        setIsLoading(false);
+      }
     }
   };
 
-  const handleSend = async () => {
-    if (!input.trim() || isLoading) return;
-    
+  // Initialize chat when component mounts or question changes, resuming the saved conversation if there is one
+  useEffect(() => {
+    let cancelled = false;
+    const initChat = async () => {
+      loadedFor.current = null;
+      controllerRef.current?.abort();
+      controllerRef.current = null;
+      setError(null);
+      setEditing(null);
+      setIsLoading(true);
+      show([]); // Clear previous messages
+      // The source page is a bonus; the tutor still works from the question alone when it cannot be read
+      const sourceText = await readSourceText(question.source).catch(err => { console.error("Failed to read source text", err); return undefined; });
+      const saved = await loadTranscript(question.id).catch(err => { console.error("Failed to load tutor transcript", err); return { messages: [], letterings: [] }; });
+      if (cancelled) return;
+      // Each attempt may shuffle and re-letter the options, so the tutor is told how earlier turns were lettered
+      const current = question.options.join('\n');
+      const letterings = saved.messages.length > 0 ? withLettering(saved.letterings ?? [], question.options) : [question.options];
+      letteringsRef.current = letterings;
+      contextRef.current = { ...contextRef.current, sourceText, earlierLetterings: letterings.filter(order => order.join('\n') !== current) };
+      loadedFor.current = question.id;
+      setIsLoading(false);
+
+      if (saved.messages.length > 0) {
+        show(saved.messages);
+      } else if (question.explanation) {
+        // A stored explanation opens the chat as is; only questions without one need the model to explain first
+        show([{ role: 'model', text: question.explanation }]);
+      } else {
+        await ask([], TUTOR_OPENING_PROMPT);
+      }
+    };
+
+    initChat();
+    return () => {
+      cancelled = true;
+      controllerRef.current?.abort();
+      controllerRef.current = null;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [question]);
+
+  // The answer and note can change while the chat is open (practice mode opens the tutor before answering);
+  // every request rebuilds its session from contextRef, so the next turn sees them
+  useEffect(() => {
+    contextRef.current = { ...contextRef.current, chosenAnswer, note };
+  }, [chosenAnswer, note]);
+
+  const stop = () => controllerRef.current?.abort();
+
+  // Sending while a reply streams stops it first; the partial reply stays in the conversation
+  const send = (text: string, prompt = text) => {
+    if (loadedFor.current !== question.id) return;
+    setEditing(null);
+    ask(withoutStreaming(messagesRef.current), prompt, text);
+  };
+
+  const handleSend = () => {
+    if (!input.trim()) return;
     const userText = input.trim();
     setInput('');
-    setMessages(prev => [...prev, { role: 'user', text: userText }]);
-    
-    await streamResponse(userText);
+    send(userText);
+  };
+
+  // Replaces the last reply with a new one to the same request
+  const regenerate = () => {
+    const current = withoutStreaming(messagesRef.current);
+    const lastUser = current.map(m => m.role).lastIndexOf('user');
+    if (lastUser === -1) ask([], TUTOR_OPENING_PROMPT);
+    else ask(current.slice(0, lastUser), promptFor(current[lastUser].text), current[lastUser].text);
   };
 
+  // Everything after the edited message is dropped and the conversation continues from the new wording
+  const submitEdit = () => {
+    if (!editing || !editing.text.trim()) return;
+    const text = editing.text.trim();
+    setEditing(null);
+    ask(withoutStreaming(messagesRef.current).slice(0, editing.index), text, text);
+  };
+
+  const copy = async (index: number) => {
+    try {
+      await navigator.clipboard.writeText(messages[index].text);
+      setCopiedIndex(index);
+      setTimeout(() => setCopiedIndex(current => (current === index ? null : current)), 1500);
+    } catch (err) {
+      console.error("Failed to copy message", err);
+    }
+  };
+
+  const answeredWrong = chosenAnswer !== undefined && !question.needsReview && chosenAnswer !== question.correctAnswer;
+  const followUps = FOLLOW_UPS.filter(f => !f.whenWrong || answeredWrong);
+  const lastModel = messages.map(m => m.role).lastIndexOf('model');
+  const actionCls = "flex items-center gap-1 text-xs text-gray-500 hover:text-white transition-colors";
+
   return (
     <div className="mt-8 pt-6 border-t border-neutral-800 animate-fade-in px-4 md:px-0">
       <div className="md:bg-surface bg-neutral-900/30 md:rounded-2xl md:border md:border-neutral-800 border-0 overflow-hidden md:shadow-2xl rounded-xl">
@@ -122,34 +229,74 @@ const AIChat: React.FC<AIChatProps> = ({ question }) => {
           {messages.map((msg, idx) => (
             <div 
               key={idx} 
-              className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}
+              className={`flex flex-col ${msg.role === 'user' ? 'items-end' : 'items-start'}`}
             >
-              <div 
-                className={`max-w-[95%] md:max-w-[85%] rounded-2xl p-4 text-base leading-relaxed shadow-lg ${
-                  msg.role === 'user' 
-                    ? 'bg-red-600 text-white rounded-tr-sm' 
-                    : 'bg-neutral-900 text-gray-200 border border-neutral-800 rounded-tl-sm'
-                }`}
-              >
-                {/* React Markdown Component */}
-                <div className="markdown-content">
-                  <ReactMarkdown 
-                      remarkPlugins={[remarkMath]}
-                      rehypePlugins={[rehypeKatex]}
-                  >
-                      {msg.text}
-                  </ReactMarkdown>
+              {editing?.index === idx ? (
+                <div className="w-full max-w-[95%] md:max-w-[85%] space-y-2">
+                  <textarea
+                    value={editing.text}
+                    onChange={(e) => setEditing({ index: idx, text: e.target.value })}
+                    className="w-full bg-neutral-900 border border-red-500 rounded-xl p-3 text-sm text-white focus:outline-none min-h-[80px]"
+                    autoFocus
+                  />
+                  <div className="flex justify-end gap-2">
+                    <button onClick={() => setEditing(null)} className="px-3 py-1.5 rounded-lg bg-neutral-800 text-gray-300 text-xs">বাতিল</button>
+                    <button onClick={submitEdit} disabled={!editing.text.trim()} className="px-3 py-1.5 rounded-lg bg-red-600 text-white text-xs font-bold disabled:opacity-40">পাঠান</button>
+                  </div>
+                </div>
+              ) : (
+                <div 
+                  className={`max-w-[95%] md:max-w-[85%] rounded-2xl p-4 text-base leading-relaxed shadow-lg ${
+                    msg.role === 'user' 
+                      ? 'bg-red-600 text-white rounded-tr-sm' 
+                      : 'bg-neutral-900 text-gray-200 border border-neutral-800 rounded-tl-sm'
+                  }`}
+                >
+                  {/* React Markdown Component */}
+                  <div className="markdown-content">
+                    <ReactMarkdown 
+                        remarkPlugins={[remarkMath]}
+                        rehypePlugins={[rehypeKatex]}
+                    >
+                        {msg.text}
+                    </ReactMarkdown>
+                  </div>
+                  
+                  {msg.isStreaming && <span className="inline-block w-2 h-4 ml-1 bg-red-400 animate-pulse align-middle rounded-full"></span>}
                 </div>
-                
-                {msg.isStreaming && <span className="inline-block w-2 h-4 ml-1 bg-red-400 animate-pulse align-middle rounded-full"></span>}
-              </div>
+              )}
+              {!msg.isStreaming && editing?.index !== idx && (
+                <div className="flex gap-3 mt-1.5 px-1">
+                  <button onClick={() => copy(idx)} className={actionCls} title="Markdown/LaTeX সহ কপি"><CopyIcon /> {copiedIndex === idx ? 'কপি হয়েছে' : 'কপি'}</button>
+                  {msg.role === 'user' && <button onClick={() => setEditing({ index: idx, text: msg.text })} className={`${actionCls} [&>svg]:w-4 [&>svg]:h-4`}><PencilIcon filled={false} /> এডিট</button>}
+                  {msg.role === 'model' && idx === lastModel && !isLoading && <button onClick={regenerate} className={actionCls}><RefreshIcon /> আবার লিখুন</button>}
+                </div>
+              )}
             </div>
           ))}
+          {/* Stopping the opening explanation before any of it arrived leaves nothing to regenerate from */}
+          {messages.length === 0 && !isLoading && !error && loadedFor.current === question.id && (
+            <div className="flex items-center gap-3 p-3 rounded-xl border border-neutral-800 bg-neutral-900 text-sm text-gray-400">
+              <span className="flex-1">ব্যাখ্যা থামানো হয়েছে।</span>
+              <button onClick={regenerate} className="px-3 py-1.5 rounded-lg bg-red-600 text-white text-xs font-bold hover:bg-red-500 flex items-center gap-1"><RefreshIcon /> আবার লিখুন</button>
+            </div>
+          )}
+          {error && (
+            <div className="flex items-center gap-3 p-3 rounded-xl border border-red-500/30 bg-red-500/10 text-sm text-red-300">
+              <span className="flex-1">উত্তর পাওয়া যায়নি: {LLM_ERROR_LABELS[error.kind]}</span>
+              <button onClick={error.retry} className="px-3 py-1.5 rounded-lg bg-red-600 text-white text-xs font-bold hover:bg-red-500 flex items-center gap-1"><RefreshIcon /> আবার চেষ্টা</button>
+            </div>
+          )}
           <div ref={messagesEndRef} />
         </div>
 
         {/* Input Area */}
         <div className="p-4 bg-neutral-900/50 border-t border-neutral-800">
+          <div className="flex flex-wrap gap-2 mb-3">
+            {followUps.map(f => (
+              <button key={f.label} onClick={() => send(f.label, f.prompt)} className="px-3 py-1.5 rounded-full text-xs border border-neutral-700 bg-black text-gray-300 hover:border-red-500 hover:text-white transition-colors">{f.label}</button>
+            ))}
+          </div>
           <div className="flex gap-3">
             <input
               type="text"
@@ -157,12 +304,20 @@ const AIChat: React.FC<AIChatProps> = ({ question }) => {
               onChange={(e) => setInput(e.target.value)}
               onKeyDown={(e) => e.key === 'Enter' && handleSend()}
               placeholder="প্রশ্ন করুন (Ask a follow-up)..."
-              disabled={isLoading}
               className="flex-1 bg-neutral-900 border border-neutral-700 rounded-xl px-5 py-3 text-sm text-white focus:outline-none focus:border-red-500 focus:ring-1 focus:ring-red-500/50 transition-all placeholder-neutral-500 font-sans"
             />
+            {isLoading && (
+              <button
+                onClick={stop}
+                title="থামান"
+                className="bg-neutral-800 hover:bg-neutral-700 text-white p-3 rounded-xl transition-all"
+              >
+                <StopIcon />
+              </button>
+            )}
             <button 
               onClick={handleSend}
-              disabled={isLoading || !input.trim()}
+              disabled={!input.trim()}
               className="bg-red-600 hover:bg-red-500 disabled:bg-neutral-800 disabled:text-neutral-500 disabled:cursor-not-allowed text-white p-3 rounded-xl transition-all shadow-lg shadow-red-500/20"
             >
               <SendIcon />
@@ -175,4 +330,4 @@ const AIChat: React.FC<AIChatProps> = ({ question }) => {
   );
 };
 
-export default AIChat;
\ No newline at end of file
+export default AIChat;
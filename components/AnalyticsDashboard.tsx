@@ -0,0 +1,138 @@
+import React, { useMemo } from 'react';
+import { ExamSession } from '../types';
+import { AreaStats, TrendPoint, summarize } from '../services/analytics';
+import { SUBJECT_LABELS } from '../services/examBuilder';
+import { ClockIcon, SparklesIcon } from './Icons';
+
+interface AnalyticsDashboardProps {
+  sessions: ExamSession[];
+  onPractice: (area: AreaStats) => void;
+  onClose: () => void;
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+const seconds = (value?: number) => (value === undefined ? '—' : `${Math.round(value)}s`);
+const accuracyColor = (value: number) => (value >= 0.8 ? 'bg-green-500' : value >= 0.5 ? 'bg-yellow-500' : 'bg-red-500');
+
+const areaLabel = (area: AreaStats) => {
+  const parts = [area.subject ? SUBJECT_LABELS[area.subject] : '', area.chapter, area.topic].filter(Boolean);
+  return parts.length > 0 ? parts.join(' › ') : 'বিষয় ছাড়া';
+};
+
+const Bar: React.FC<{ label: string; value: number; max: number; caption: string; color: string }> = ({ label, value, max, caption, color }) => (
+  <div>
+    <div className="flex justify-between gap-3 text-xs mb-1">
+      <span className="text-gray-300 truncate">{label}</span>
+      <span className="text-secondary font-mono flex-shrink-0">{caption}</span>
+    </div>
+    <div className="h-2 bg-neutral-800 rounded-full overflow-hidden">
+      <div className={`h-full ${color} rounded-full`} style={{ width: `${max > 0 ? Math.min(100, (value / max) * 100) : 0}%` }} />
+    </div>
+  </div>
+);
+
+// Accuracy per session as a line, oldest on the left
+const TrendChart: React.FC<{ points: TrendPoint[] }> = ({ points }) => {
+  if (points.length < 2) return <p className="text-xs text-secondary">উন্নতির গ্রাফের জন্য অন্তত ২টি পরীক্ষা দিন।</p>;
+  const width = 300;
+  const height = 100;
+  const x = (i: number) => (i / (points.length - 1)) * width;
+  const y = (accuracy: number) => height - accuracy * height;
+  const line = points.map((p, i) => `${x(i)},${y(p.accuracy)}`).join(' ');
+  return (
+    <svg viewBox={`-6 -6 ${width + 12} ${height + 12}`} className="w-full h-40">
+      {[0.25, 0.5, 0.75].map(level => <line key={level} x1={0} x2={width} y1={y(level)} y2={y(level)} stroke="currentColor" className="text-neutral-800" strokeDasharray="4 4" />)}
+      <polyline points={line} fill="none" stroke="currentColor" strokeWidth={2} className="text-red-500" />
+      {points.map((p, i) => (
+        <circle key={p.sessionId} cx={x(i)} cy={y(p.accuracy)} r={3.5} className="fill-red-400">
+          <title>{`${new Date(p.finishedAt).toLocaleDateString()} — ${percent(p.accuracy)}${p.avgSeconds !== undefined ? `, ${seconds(p.avgSeconds)}/প্রশ্ন` : ''}`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+};
+
+const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ sessions, onPractice, onClose }) => {
+  const summary = useMemo(() => summarize(sessions), [sessions]);
+  const slowestMax = summary.slowest[0]?.avgSeconds ?? 0;
+  const panel = "md:bg-surface bg-transparent md:rounded-2xl md:border md:border-neutral-800 border-b border-neutral-900 md:p-6 p-5";
+
+  return (
+    <div className="max-w-4xl mx-auto w-full md:p-4 p-0 animate-fade-in">
+      <div className="flex justify-between items-center mb-6 px-4 pt-4 md:px-0">
+        <h2 className="text-2xl font-bold text-white flex items-center gap-3"><SparklesIcon /> পারফরম্যান্স বিশ্লেষণ</h2>
+        <button onClick={onClose} className="px-4 py-2 bg-neutral-800 text-white rounded-lg text-sm font-bold hover:bg-neutral-700">ফিরে যান</button>
+      </div>
+
+      {summary.sessions === 0 ? (
+        <p className="text-center text-secondary py-16">এখনো কোনো পরীক্ষা দেওয়া হয়নি। একটি পরীক্ষা শেষ করলে এখানে বিশ্লেষণ দেখা যাবে।</p>
+      ) : (
+        <div className="md:space-y-6 space-y-0">
+          <div className="grid grid-cols-3 gap-4 px-4 md:px-0 mb-6 md:mb-0">
+            <div className="p-4 rounded-2xl bg-neutral-900 border border-neutral-800 text-center"><div className="text-2xl font-bold text-white">{summary.sessions}</div><div className="text-xs text-secondary">পরীক্ষা</div></div>
+            <div className="p-4 rounded-2xl bg-neutral-900 border border-neutral-800 text-center"><div className="text-2xl font-bold text-green-400">{percent(summary.overall.accuracy)}</div><div className="text-xs text-secondary">সঠিকের হার ({summary.overall.attempted} প্রশ্ন)</div></div>
+            <div className="p-4 rounded-2xl bg-neutral-900 border border-neutral-800 text-center"><div className="text-2xl font-bold text-white flex items-center justify-center gap-1 [&>svg]:w-5 [&>svg]:h-5"><ClockIcon />{seconds(summary.overall.avgSeconds)}</div><div className="text-xs text-secondary">গড় সময়/প্রশ্ন</div></div>
+          </div>
+
+          <div className={panel}>
+            <h3 className="text-sm font-bold text-gray-300 mb-3">সময়ের সাথে উন্নতি (শেষ {summary.trend.length} টি পরীক্ষা)</h3>
+            <TrendChart points={summary.trend} />
+          </div>
+
+          <div className={panel}>
+            <h3 className="text-sm font-bold text-gray-300 mb-4">বিষয়ভিত্তিক সঠিকের হার</h3>
+            <div className="space-y-3">
+              {summary.bySubject.map(area => (
+                <Bar key={area.key} label={area.subject ? SUBJECT_LABELS[area.subject] : 'বিষয় ছাড়া'} value={area.accuracy} max={1} color={accuracyColor(area.accuracy)} caption={`${percent(area.accuracy)} · ${area.correct}/${area.attempted} · ${seconds(area.avgSeconds)}`} />
+              ))}
+            </div>
+          </div>
+
+          <div className={panel}>
+            <h3 className="text-sm font-bold text-red-400 mb-1">দুর্বল জায়গা</h3>
+            <p className="text-xs text-secondary mb-4">অন্তত ৩টি প্রশ্নে ৬০% এর কম সঠিক — এখান থেকে আলাদা প্র্যাকটিস শুরু করুন।</p>
+            {summary.weakAreas.length === 0 ? (
+              <p className="text-sm text-gray-400">কোনো দুর্বল টপিক পাওয়া যায়নি।</p>
+            ) : (
+              <div className="space-y-2">
+                {summary.weakAreas.map(area => (
+                  <div key={area.key} className="flex items-center gap-3 bg-black/40 rounded-xl p-3 border border-neutral-800">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-white truncate">{areaLabel(area)}</p>
+                      <p className="text-xs text-secondary font-mono">{percent(area.accuracy)} · {area.correct}/{area.attempted} · {seconds(area.avgSeconds)}</p>
+                    </div>
+                    <button onClick={() => onPractice(area)} className="px-3 py-1.5 rounded-lg bg-red-600 text-white text-xs font-bold hover:bg-red-500 flex-shrink-0">প্র্যাকটিস</button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {summary.slowest.length > 0 && (
+            <div className={panel}>
+              <h3 className="text-sm font-bold text-gray-300 mb-4">সবচেয়ে বেশি সময় লাগা টপিক</h3>
+              <div className="space-y-3">
+                {summary.slowest.map(area => (
+                  <Bar key={area.key} label={areaLabel(area)} value={area.avgSeconds ?? 0} max={slowestMax} color="bg-yellow-500" caption={`${seconds(area.avgSeconds)}/প্রশ্ন`} />
+                ))}
+              </div>
+            </div>
+          )}
+
+          {summary.byTopic.length > 0 && (
+            <div className={panel}>
+              <h3 className="text-sm font-bold text-gray-300 mb-4">টপিকভিত্তিক ফলাফল</h3>
+              <div className="space-y-3 max-h-96 overflow-y-auto pr-1">
+                {summary.byTopic.map(area => (
+                  <Bar key={area.key} label={areaLabel(area)} value={area.accuracy} max={1} color={accuracyColor(area.accuracy)} caption={`${percent(area.accuracy)} · ${area.correct}/${area.attempted} · ${seconds(area.avgSeconds)}`} />
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AnalyticsDashboard;
@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { Question } from '../types';
+import { optionLabel } from '../services/answerKey';
+import MathText from './MathText';
+import AIChat from './AIChat';
+import ExplanationBox from './ExplanationBox';
+import { ClockIcon, HeartIcon, PencilIcon, SparklesIcon } from './Icons';
+
+interface AnswerReviewProps {
+  questions: Question[];
+  answers: Record<number, string>;
+  answerTimes: Record<number, number>;
+  notes: Record<number, string>;
+  favorites: Set<number>;
+  onRetakeWrong: (questions: Question[]) => void;
+  onClose: () => void;
+}
+
+type ReviewFilter = 'all' | 'wrong' | 'skipped' | 'favorite' | 'slow';
+
+const DEFAULT_SLOW_SECONDS = 60;
+
+const AnswerReview: React.FC<AnswerReviewProps> = ({ questions, answers, answerTimes, notes, favorites, onRetakeWrong, onClose }) => {
+  const [filter, setFilter] = useState<ReviewFilter>('all');
+  const [slowSeconds, setSlowSeconds] = useState(DEFAULT_SLOW_SECONDS);
+  const [tutorId, setTutorId] = useState<number | null>(null);
+
+  const isWrong = (q: Question) => !q.needsReview && !!answers[q.id] && answers[q.id] !== q.correctAnswer;
+  const isSkipped = (q: Question) => !answers[q.id];
+  const isSlow = (q: Question) => (answerTimes[q.id] ?? 0) > slowSeconds;
+
+  const matches: Record<ReviewFilter, (q: Question) => boolean> = {
+    all: () => true,
+    wrong: isWrong,
+    skipped: isSkipped,
+    favorite: q => favorites.has(q.id),
+    slow: isSlow,
+  };
+  const wrong = questions.filter(isWrong);
+  const tabs: { key: ReviewFilter; label: string }[] = [
+    { key: 'all', label: 'সব' },
+    { key: 'wrong', label: 'ভুল' },
+    { key: 'skipped', label: 'বাদ' },
+    { key: 'favorite', label: 'প্রিয়' },
+    { key: 'slow', label: 'ধীর' },
+  ];
+  // Keep exam numbering so "Q7" here is Q7 in the exam
+  const visible = questions.map((q, index) => ({ q, index })).filter(({ q }) => matches[filter](q));
+
+  const status = (q: Question) => {
+    if (q.needsReview) return { label: 'যাচাই প্রয়োজন', cls: 'text-yellow-400 bg-yellow-500/10 border-yellow-500/20' };
+    if (isSkipped(q)) return { label: 'বাদ', cls: 'text-gray-400 bg-neutral-800 border-neutral-700' };
+    if (isWrong(q)) return { label: 'ভুল', cls: 'text-red-400 bg-red-500/10 border-red-500/20' };
+    return { label: 'সঠিক', cls: 'text-green-400 bg-green-500/10 border-green-500/20' };
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto w-full md:p-4 p-0 animate-fade-in">
+      <div className="flex justify-between items-center mb-6 px-4 pt-4 md:px-0 gap-3 flex-wrap">
+        <h2 className="text-2xl font-bold text-white">উত্তর পর্যালোচনা</h2>
+        <div className="flex gap-2">
+          <button onClick={() => onRetakeWrong(wrong)} disabled={wrong.length === 0} className="px-4 py-2 bg-red-600 text-white rounded-lg text-sm font-bold hover:bg-red-500 disabled:bg-neutral-800 disabled:text-neutral-500">শুধু ভুলগুলো আবার ({wrong.length})</button>
+          <button onClick={onClose} className="px-4 py-2 bg-neutral-800 text-white rounded-lg text-sm font-bold hover:bg-neutral-700">ফলাফল</button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-6 px-4 md:px-0">
+        {tabs.map(tab => (
+          <button key={tab.key} onClick={() => setFilter(tab.key)} className={`px-3 py-1.5 rounded-lg text-xs font-bold border transition-colors ${filter === tab.key ? 'bg-red-600 border-red-600 text-white' : 'bg-neutral-900 border-neutral-800 text-gray-400 hover:text-white'}`}>
+            {tab.label} ({questions.filter(matches[tab.key]).length})
+          </button>
+        ))}
+        {filter === 'slow' && (
+          <label className="flex items-center gap-2 text-xs text-secondary ml-1">
+            &gt;
+            <input type="number" min={0} value={slowSeconds} onChange={(e) => setSlowSeconds(Math.max(0, parseInt(e.target.value, 10) || 0))} className="w-16 bg-black border border-neutral-700 rounded-lg px-2 py-1 text-white font-mono focus:outline-none focus:border-red-500" />
+            সেকেন্ড
+          </label>
+        )}
+      </div>
+
+      {visible.length === 0 && <p className="text-center text-secondary py-12">এই ফিল্টারে কোনো প্রশ্ন নেই।</p>}
+
+      <div className="md:space-y-4 space-y-0">
+        {visible.map(({ q, index }) => {
+          const chosen = answers[q.id];
+          const badge = status(q);
+          const note = notes[q.id];
+          return (
+            <div key={q.id} className="md:bg-surface bg-transparent md:rounded-2xl md:border md:border-neutral-800 border-b border-neutral-900 md:p-6 p-5">
+              <div className="flex justify-between items-center gap-3 mb-3 text-xs">
+                <div className="flex items-center gap-2">
+                  <span className="font-mono text-secondary">Q{index + 1}</span>
+                  <span className={`px-2 py-0.5 rounded-full border font-bold ${badge.cls}`}>{badge.label}</span>
+                  {favorites.has(q.id) && <span className="text-pink-500 [&>svg]:w-4 [&>svg]:h-4"><HeartIcon filled={true} /></span>}
+                </div>
+                <span className={`flex items-center gap-1 font-mono [&>svg]:w-4 [&>svg]:h-4 ${isSlow(q) ? 'text-yellow-400' : 'text-secondary'}`}><ClockIcon /> {answerTimes[q.id] !== undefined ? `${answerTimes[q.id]}s` : '—'}</span>
+              </div>
+              <div className="text-lg font-bold text-white mb-4 break-words"><MathText text={q.text} /></div>
+              <div className="grid gap-2">
+                {q.options.map((opt, idx) => {
+                  const isCorrect = opt === q.correctAnswer;
+                  const isChosen = opt === chosen;
+                  const cls = isCorrect ? 'border-green-600 bg-green-900/20 text-green-100' : isChosen ? 'border-red-600 bg-red-900/20 text-red-100' : 'border-neutral-800 bg-neutral-900/50 text-gray-400';
+                  return (
+                    <div key={idx} className={`p-3 rounded-xl border text-sm flex items-start gap-2 ${cls}`}>
+                      <span className="w-6 font-mono opacity-50 flex-shrink-0">{optionLabel(q, idx)}.</span>
+                      <span className="flex-1 min-w-0 break-words"><MathText text={opt} inline /></span>
+                      {isChosen && <span className="text-xs font-bold flex-shrink-0">আপনার উত্তর</span>}
+                    </div>
+                  );
+                })}
+              </div>
+              {q.explanation && <ExplanationBox text={q.explanation} />}
+              {note && (
+                <div className="mt-4 p-3 rounded-xl bg-yellow-500/5 border border-yellow-500/20 text-sm text-yellow-100 flex gap-2 [&>svg]:w-4 [&>svg]:h-4 [&>svg]:flex-shrink-0 [&>svg]:text-yellow-400">
+                  <PencilIcon filled={true} /> <span className="whitespace-pre-wrap break-words">{note}</span>
+                </div>
+              )}
+              <button onClick={() => setTutorId(tutorId === q.id ? null : q.id)} className="mt-4 px-4 py-2 bg-red-500/10 text-red-400 rounded-lg text-sm font-bold flex items-center gap-2"><SparklesIcon /> {tutorId === q.id ? 'টিউটর বন্ধ' : 'AI টিউটর'}</button>
+              {tutorId === q.id && <AIChat question={q} chosenAnswer={chosen} note={note} />}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default AnswerReview;
@@ -0,0 +1,106 @@
+import React, { useMemo } from 'react';
+import { ExamConfig, ExamFilter, Question, Subject } from '../types';
+import { EMPTY_FILTER, SUBJECTS, SUBJECT_LABELS, indexTags, isFiltered, selectExamQuestions } from '../services/examBuilder';
+
+interface ExamFilterPanelProps {
+  questions: Question[];
+  config: ExamConfig;
+  onChange: (patch: Partial<ExamConfig>) => void;
+}
+
+const chipClass = (active: boolean) =>
+  `px-3 py-1 rounded-full text-xs border transition-colors ${active ? 'bg-red-600/20 border-red-500 text-red-300' : 'bg-black border-neutral-700 text-gray-400 hover:text-white'}`;
+
+const ExamFilterPanel: React.FC<ExamFilterPanelProps> = ({ questions, config, onChange }) => {
+  const { filter } = config;
+  const tags = useMemo(() => indexTags(questions, filter), [questions, filter]);
+  const paperSize = useMemo(() => selectExamQuestions(questions, { ...config, shuffle: false }).length, [questions, config]);
+
+  // Chapters and topics that no longer exist under the chosen subjects are dropped so they cannot filter out everything unseen.
+  // Editing also ends a weak-area run's exact match, which these controls cannot show
+  const setFilter = ({ area, ...next }: ExamFilter) => {
+    const available = indexTags(questions, next);
+    const chapters = next.chapters.filter(c => available.chapters.has(c));
+    const topics = next.topics.filter(t => indexTags(questions, { ...next, chapters }).topics.has(t));
+    onChange({ filter: { ...next, chapters, topics } });
+  };
+
+  const toggle = <T,>(list: T[], value: T) => (list.includes(value) ? list.filter(v => v !== value) : [...list, value]);
+
+  const setPerSubject = (subject: Subject, value: string) => {
+    const parsed = parseInt(value, 10);
+    setFilter({ ...filter, perSubject: { ...filter.perSubject, [subject]: isNaN(parsed) ? 0 : Math.max(0, parsed) } });
+  };
+
+  const subjects = SUBJECTS.filter(s => tags.subjects.has(s));
+  const chapters = [...tags.chapters.keys()].sort((a, b) => a.localeCompare(b));
+  const topics = [...tags.topics.keys()].sort((a, b) => a.localeCompare(b));
+
+  return (
+    <div className="mb-8 bg-neutral-900 rounded-2xl p-4 border border-neutral-800 w-full text-left">
+      <div className="flex justify-between items-center mb-3">
+        <p className="text-sm font-bold text-gray-300">বিষয়ভিত্তিক প্রশ্ন বাছাই</p>
+        {isFiltered(filter) && <button onClick={() => onChange({ filter: EMPTY_FILTER })} className="text-xs text-red-400 hover:text-red-300">সব প্রশ্ন</button>}
+      </div>
+
+      {subjects.length === 0 ? (
+        <p className="text-xs text-secondary mb-3">এই প্রশ্নগুলোতে বিষয়/অধ্যায় ট্যাগ নেই। এডিটরে ট্যাগ যোগ করা যাবে।</p>
+      ) : (
+        <>
+          <div className="space-y-2 mb-4">
+            {subjects.map(subject => (
+              <div key={subject} className="flex items-center gap-3">
+                <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer flex-1 min-w-0">
+                  <input type="checkbox" checked={filter.subjects.includes(subject)} onChange={() => setFilter({ ...filter, subjects: toggle(filter.subjects, subject) })} className="accent-red-500 w-4 h-4" />
+                  <span className="truncate">{SUBJECT_LABELS[subject]}</span>
+                  <span className="text-xs text-secondary font-mono">({tags.subjects.get(subject)})</span>
+                </label>
+                <input type="number" min={0} max={tags.subjects.get(subject)} value={filter.perSubject[subject] ?? 0} onChange={(e) => setPerSubject(subject, e.target.value)} title="এই বিষয় থেকে সর্বোচ্চ প্রশ্ন (০ = সব)" className="w-20 bg-black border border-neutral-700 rounded-lg px-2 py-1 text-white font-mono text-sm focus:outline-none focus:border-red-500" />
+              </div>
+            ))}
+            {tags.untagged > 0 && filter.subjects.length === 0 && <p className="text-xs text-secondary">বিষয় ছাড়া প্রশ্ন: {tags.untagged}</p>}
+          </div>
+          <p className="text-xs text-secondary mb-4">ডানের ঘরে প্রতি বিষয় থেকে কতটি প্রশ্ন নেওয়া হবে (০ = সব)।</p>
+        </>
+      )}
+
+      {chapters.length > 0 && (
+        <div className="mb-4">
+          <p className="text-xs text-secondary mb-2">অধ্যায়</p>
+          <div className="flex flex-wrap gap-2 max-h-32 overflow-y-auto">
+            {chapters.map(chapter => (
+              <button key={chapter} onClick={() => setFilter({ ...filter, chapters: toggle(filter.chapters, chapter) })} className={chipClass(filter.chapters.includes(chapter))}>{chapter} <span className="font-mono opacity-70">{tags.chapters.get(chapter)}</span></button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {topics.length > 0 && (
+        <div className="mb-4">
+          <p className="text-xs text-secondary mb-2">টপিক</p>
+          <div className="flex flex-wrap gap-2 max-h-32 overflow-y-auto">
+            {topics.map(topic => (
+              <button key={topic} onClick={() => setFilter({ ...filter, topics: toggle(filter.topics, topic) })} className={chipClass(filter.topics.includes(topic))}>{topic} <span className="font-mono opacity-70">{tags.topics.get(topic)}</span></button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between gap-3 border-t border-neutral-800 pt-3">
+        <div className="flex flex-col gap-2">
+          <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+            <input type="checkbox" checked={config.shuffle} onChange={(e) => onChange({ shuffle: e.target.checked })} className="accent-red-500 w-4 h-4" />
+            প্রশ্ন এলোমেলো করুন
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+            <input type="checkbox" checked={config.shuffleOptions} onChange={(e) => onChange({ shuffleOptions: e.target.checked })} className="accent-red-500 w-4 h-4" />
+            অপশন এলোমেলো করুন
+          </label>
+        </div>
+        <span className="text-xs text-secondary">পরীক্ষায় <span className="text-white font-mono font-bold">{paperSize}</span> টি প্রশ্ন</span>
+      </div>
+    </div>
+  );
+};
+
+export default ExamFilterPanel;
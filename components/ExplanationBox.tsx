@@ -0,0 +1,16 @@
+import React from 'react';
+import MathText from './MathText';
+
+interface ExplanationBoxProps {
+  text: string;
+}
+
+// The stored explanation under an answered question
+const ExplanationBox: React.FC<ExplanationBoxProps> = ({ text }) => (
+  <div className="mt-4 p-4 rounded-xl bg-green-500/5 border border-green-500/20 text-sm text-gray-200 animate-fade-in">
+    <p className="text-xs font-bold text-green-400 mb-1">ব্যাখ্যা</p>
+    <div className="prose prose-invert max-w-none break-words"><MathText text={text} /></div>
+  </div>
+);
+
+export default ExplanationBox;
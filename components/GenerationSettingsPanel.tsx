@@ -0,0 +1,66 @@
+import React from 'react';
+import { Difficulty, GenerationSettings } from '../types';
+import { SUBJECTS, SUBJECT_LABELS } from '../services/examBuilder';
+import { DEFAULT_GENERATION_SETTINGS, DIFFICULTIES, DIFFICULTY_LABELS, KIND_LABELS, QUESTION_KINDS, splitByMix } from '../services/generationPlan';
+
+interface GenerationSettingsPanelProps {
+  settings: GenerationSettings;
+  onChange: (settings: GenerationSettings) => void;
+}
+
+const chipClass = (active: boolean) =>
+  `px-3 py-1 rounded-full text-xs border transition-colors ${active ? 'bg-red-600/20 border-red-500 text-red-300' : 'bg-black border-neutral-700 text-gray-400 hover:text-white'}`;
+
+const DIFFICULTY_COLORS: Record<Difficulty, string> = { easy: 'bg-green-500', medium: 'bg-yellow-500', hard: 'bg-red-500' };
+
+const GenerationSettingsPanel: React.FC<GenerationSettingsPanelProps> = ({ settings, onChange }) => {
+  const set = (patch: Partial<GenerationSettings>) => onChange({ ...settings, ...patch });
+  const toggle = <T,>(list: T[], value: T) => (list.includes(value) ? list.filter(v => v !== value) : [...list, value]);
+  // Shown as percentages whatever the raw weights add up to
+  const shares = splitByMix(100, settings.difficultyMix);
+  const planned = settings.count > 0 ? splitByMix(settings.count, settings.difficultyMix) : null;
+
+  return (
+    <div className="w-full max-w-md mb-8 bg-neutral-900 rounded-2xl p-4 border border-neutral-800 text-left">
+      <div className="flex justify-between items-center mb-4">
+        <p className="text-sm font-bold text-gray-300">প্রশ্ন তৈরির সেটিংস</p>
+        <button onClick={() => onChange(DEFAULT_GENERATION_SETTINGS)} className="text-xs text-red-400 hover:text-red-300">ডিফল্ট</button>
+      </div>
+
+      <label className="flex items-center justify-between gap-3 text-sm text-gray-300 mb-4">
+        প্রশ্নের সংখ্যা
+        <input type="number" min={0} max={200} value={settings.count} onChange={(e) => set({ count: Math.min(200, Math.max(0, parseInt(e.target.value, 10) || 0)) })} title="০ = ফাইল থেকে যত সম্ভব" className="w-24 bg-black border border-neutral-700 rounded-lg px-2 py-1 text-white font-mono text-sm focus:outline-none focus:border-red-500" />
+      </label>
+
+      <p className="text-xs text-secondary mb-2">কাঠিন্যের অনুপাত</p>
+      <div className="flex h-2 rounded-full overflow-hidden bg-neutral-800 mb-3">
+        {DIFFICULTIES.map(d => <div key={d} className={DIFFICULTY_COLORS[d]} style={{ width: `${shares[d]}%` }} />)}
+      </div>
+      <div className="space-y-2 mb-4">
+        {DIFFICULTIES.map(d => (
+          <div key={d} className="flex items-center gap-3 text-sm">
+            <span className="w-14 text-gray-300">{DIFFICULTY_LABELS[d]}</span>
+            <input type="range" min={0} max={100} step={5} value={settings.difficultyMix[d]} onChange={(e) => set({ difficultyMix: { ...settings.difficultyMix, [d]: parseInt(e.target.value, 10) } })} className="flex-1 accent-red-500" />
+            <span className="w-20 text-right text-xs text-secondary font-mono">{shares[d]}%{planned && ` · ${planned[d]}`}</span>
+          </div>
+        ))}
+      </div>
+
+      <p className="text-xs text-secondary mb-2">প্রশ্নের ধরন (কিছু না বাছলে সব ধরন)</p>
+      <div className="flex flex-wrap gap-2 mb-4">
+        {QUESTION_KINDS.map(kind => (
+          <button key={kind} onClick={() => set({ kinds: toggle(settings.kinds, kind) })} className={chipClass(settings.kinds.includes(kind))}>{KIND_LABELS[kind]}</button>
+        ))}
+      </div>
+
+      <p className="text-xs text-secondary mb-2">বিষয় (কিছু না বাছলে ফাইলের সব বিষয়)</p>
+      <div className="flex flex-wrap gap-2">
+        {SUBJECTS.map(subject => (
+          <button key={subject} onClick={() => set({ subjects: toggle(settings.subjects, subject) })} className={chipClass(settings.subjects.includes(subject))}>{SUBJECT_LABELS[subject]}</button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default GenerationSettingsPanel;
@@ -0,0 +1,17 @@
+import React from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+
+interface MathTextProps {
+  text: string;
+  inline?: boolean; // render paragraphs as spans, e.g. inside option buttons
+}
+
+const MathText: React.FC<MathTextProps> = ({ text, inline = false }) => (
+  <ReactMarkdown remarkPlugins={[remarkMath]} rehypePlugins={[rehypeKatex]} components={{ p: ({node, ...props}) => inline ? <span {...props} /> : <p {...props} /> }}>
+      {text}
+  </ReactMarkdown>
+);
+
+export default MathText;
@@ -0,0 +1,43 @@
+import React, { useState } from 'react';
+import { PrintDocumentType, PrintOptions } from '../types';
+import { DownloadIcon } from './Icons';
+
+interface PdfOptionsDialogProps {
+  type: PrintDocumentType;
+  onConfirm: (options: PrintOptions) => void;
+  onCancel: () => void;
+}
+
+const PdfOptionsDialog: React.FC<PdfOptionsDialogProps> = ({ type, onConfirm, onCancel }) => {
+  const [options, setOptions] = useState<PrintOptions>({ answerKeyAtEnd: false, twoColumn: false, questionsOnly: false, tutorChats: false });
+  const hasAnswers = type !== 'notes';
+
+  const toggles: { key: keyof PrintOptions; label: string; hidden?: boolean; disabled?: boolean }[] = [
+    { key: 'twoColumn', label: 'দুই কলাম লেআউট' },
+    { key: 'questionsOnly', label: 'শুধু প্রশ্ন (উত্তর ছাড়া)', hidden: !hasAnswers },
+    { key: 'answerKeyAtEnd', label: type === 'written' ? 'সমাধান শেষে দেখান' : 'উত্তরমালা শেষে দেখান', hidden: !hasAnswers, disabled: options.questionsOnly },
+    { key: 'tutorChats', label: 'AI টিউটরের সাথে কথোপকথন', hidden: type !== 'questions', disabled: options.questionsOnly },
+  ];
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4 animate-fade-in" onClick={onCancel}>
+      <div className="bg-surface border border-neutral-800 rounded-2xl p-6 w-full max-w-sm shadow-2xl" onClick={(e) => e.stopPropagation()}>
+        <h3 className="text-lg font-bold text-white mb-4">PDF লেআউট</h3>
+        <div className="space-y-3 mb-6">
+          {toggles.filter(t => !t.hidden).map(t => (
+            <label key={t.key} className={`flex items-center gap-3 text-sm ${t.disabled ? 'text-gray-600' : 'text-gray-300 cursor-pointer'}`}>
+              <input type="checkbox" checked={options[t.key] && !t.disabled} disabled={t.disabled} onChange={(e) => setOptions(prev => ({ ...prev, [t.key]: e.target.checked }))} className="accent-red-500 w-4 h-4" />
+              {t.label}
+            </label>
+          ))}
+        </div>
+        <div className="flex gap-2 justify-end">
+          <button onClick={onCancel} className="px-4 py-2 rounded-lg bg-neutral-800 text-gray-300 text-sm">বাতিল</button>
+          <button onClick={() => onConfirm(options)} className="px-4 py-2 rounded-lg bg-emerald-600 text-white text-sm font-bold flex items-center gap-2"><DownloadIcon /> তৈরি করুন</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PdfOptionsDialog;
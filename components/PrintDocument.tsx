@@ -0,0 +1,203 @@
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import katexCss from 'katex/dist/katex.min.css?inline';
+import { NoteSection, PrintDocumentType, PrintOptions, Question, WrittenQuestion } from '../types';
+import MathText from './MathText';
+import { optionLabel } from '../services/answerKey';
+import { SavedChat } from '../services/tutorTranscripts';
+
+interface PrintDocumentProps {
+  title: string;
+  type: PrintDocumentType;
+  items: (Question | NoteSection | WrittenQuestion)[];
+  options: PrintOptions;
+  userNotes?: Record<number, string>;
+  tutorChats?: Record<number, SavedChat>; // by question id
+}
+
+const PRINT_CSS = `
+  body { font-family: 'Hind Siliguri', 'Noto Sans Bengali', 'Nirmala UI', 'Vrinda', sans-serif; padding: 40px; color: #1e293b; max-width: 900px; margin: 0 auto; line-height: 1.6; }
+  .header { text-align: center; margin-bottom: 40px; border-bottom: 2px solid #f1f5f9; padding-bottom: 20px; }
+  .header h1 { margin: 0; font-size: 28px; color: #0f172a; }
+  .header p { margin: 5px 0 0; color: #64748b; font-size: 14px; }
+  .two-column .items { column-count: 2; column-gap: 24px; }
+  .two-column .card { padding: 14px; margin-bottom: 14px; break-inside: avoid; }
+  .two-column .q-text { font-size: 15px; }
+  .two-column .option { font-size: 13px; padding: 4px 8px; }
+  .card { border: 1px solid #e2e8f0; border-radius: 12px; padding: 25px; margin-bottom: 25px; page-break-inside: avoid; break-inside: avoid; background: #fff; }
+  .q-text { font-size: 19px; font-weight: 700; margin-bottom: 15px; color: #0f172a; display: block; }
+  .q-text p, .option p { display: inline; margin: 0; }
+  .option { margin-bottom: 8px; padding: 10px 15px; border-radius: 8px; border: 1px solid #f1f5f9; font-size: 16px; display: flex; align-items: baseline; }
+  .correct { background: #f0fdf4; border: 1px solid #bbf7d0; font-weight: 700; color: #15803d; }
+  .option-label { margin-right: 10px; font-weight: bold; }
+  .importance-badge { font-size: 11px; padding: 2px 8px; border-radius: 99px; text-transform: uppercase; font-weight: bold; margin-left: 10px; }
+  .importance-High { background: #fee2e2; color: #dc2626; }
+  .importance-Medium { background: #fef9c3; color: #a16207; }
+  .importance-Normal { background: #e0f2fe; color: #0369a1; }
+  .note-title { font-size: 20px; font-weight: 700; color: #dc2626; margin-bottom: 10px; display: flex; align-items: center; }
+  .written-meta { font-size: 12px; font-weight: 700; text-transform: uppercase; color: #64748b; margin-bottom: 8px; display: block; }
+  .answer-box { margin-top: 15px; padding: 15px; background: #f8fafc; border-left: 4px solid #dc2626; border-radius: 4px; font-size: 15px; }
+  .answer-label { font-size: 11px; font-weight: 800; color: #dc2626; text-transform: uppercase; display: block; margin-bottom: 5px; }
+  .user-note { margin-top: 15px; padding: 12px; background-color: #fefce8; border: 1px solid #fde047; border-radius: 8px; color: #854d0e; }
+  .note-label { font-weight: 700; font-size: 12px; text-transform: uppercase; display: block; margin-bottom: 4px; color: #ca8a04; }
+  .chat { margin-top: 15px; border-top: 1px dashed #e2e8f0; padding-top: 10px; font-size: 14px; }
+  .chat-turn { margin: 6px 0; padding: 8px 12px; border-radius: 8px; }
+  .chat-user { background: #fef2f2; color: #7f1d1d; }
+  .chat-model { background: #f8fafc; }
+  .chat-role { font-size: 11px; font-weight: 800; text-transform: uppercase; color: #64748b; display: block; }
+  .answer-key { page-break-before: always; }
+  .answer-key h2 { font-size: 22px; border-bottom: 2px solid #f1f5f9; padding-bottom: 10px; }
+  .key-grid { display: grid; grid-template-columns: repeat(auto-fill, minmax(110px, 1fr)); gap: 6px; }
+  .key-cell { border: 1px solid #e2e8f0; border-radius: 6px; padding: 6px 10px; font-size: 14px; }
+  .katex { font-size: 1.1em !important; }
+  p { margin-bottom: 10px; }
+  @media print { body { padding: 0; } }
+`;
+
+const answerLabel = (q: Question) => {
+  const idx = q.options.indexOf(q.correctAnswer);
+  return idx === -1 ? '?' : optionLabel(q, idx);
+};
+
+// Attempts shuffle and re-letter the options, so a conversation held on another order says which letters it used
+const ChatTranscript: React.FC<{ q: Question; chat: SavedChat }> = ({ q, chat: { messages, letterings = [] } }) => (
+  <div className="chat">
+    <span className="note-label">AI Tutor:</span>
+    {letterings.filter(order => order.join('\n') !== q.options.join('\n')).map((order, i) => (
+      <div key={`order-${i}`} className="chat-role">
+        Letters in this conversation: {order.map((opt, j) => <span key={j}>({optionLabel(q, j)}) <MathText text={opt} inline />{' '}</span>)}
+      </div>
+    ))}
+    {messages.map((m, i) => (
+      <div key={i} className={`chat-turn chat-${m.role}`}>
+        <span className="chat-role">{m.role === 'user' ? 'Me' : 'Tutor'}</span>
+        <MathText text={m.text} />
+      </div>
+    ))}
+  </div>
+);
+
+const QuestionCard: React.FC<{ q: Question; index: number; showAnswer: boolean; note?: string; chat?: SavedChat }> = ({ q, index, showAnswer, note, chat }) => (
+  <div className="card">
+    <span className="q-text">Q{index + 1}. <MathText text={q.text} inline /></span>
+    <div>
+      {q.options.map((opt, i) => {
+        const isCorrect = showAnswer && opt === q.correctAnswer;
+        return (
+          <div key={i} className={`option${isCorrect ? ' correct' : ''}`}>
+            <span className="option-label">{isCorrect ? '✓' : `${optionLabel(q, i)}.`}</span>
+            <span><MathText text={opt} inline /></span>
+          </div>
+        );
+      })}
+    </div>
+    {showAnswer && q.explanation && (
+      <div className="answer-box">
+        <span className="answer-label">Explanation:</span>
+        <MathText text={q.explanation} />
+      </div>
+    )}
+    {note && (
+      <div className="user-note">
+        <span className="note-label">My Note / Analysis:</span>
+        <MathText text={note} />
+      </div>
+    )}
+    {chat && chat.messages.length > 0 && <ChatTranscript q={q} chat={chat} />}
+  </div>
+);
+
+const WrittenCard: React.FC<{ w: WrittenQuestion; index: number; showAnswer: boolean }> = ({ w, index, showAnswer }) => (
+  <div className="card">
+    <span className="written-meta">{w.subject} • {w.type} • {w.marks} Marks</span>
+    <span className="q-text">Q{index + 1}. <MathText text={w.question} inline /></span>
+    {showAnswer && (
+      <div className="answer-box">
+        <span className="answer-label">Model Solution:</span>
+        <MathText text={w.answer} />
+      </div>
+    )}
+  </div>
+);
+
+const NoteCard: React.FC<{ n: NoteSection }> = ({ n }) => (
+  <div className="card">
+    <div className="note-title">
+      {n.title}
+      <span className={`importance-badge importance-${n.importance}`}>{n.importance} Priority</span>
+    </div>
+    <MathText text={n.content} />
+  </div>
+);
+
+export const PrintDocument: React.FC<PrintDocumentProps> = ({ title, type, items, options, userNotes = {}, tutorChats = {} }) => {
+  const inlineAnswers = !options.questionsOnly && !options.answerKeyAtEnd;
+  const keyAtEnd = !options.questionsOnly && options.answerKeyAtEnd;
+
+  return (
+    <div className={options.twoColumn ? 'two-column' : ''}>
+      <div className="header"><h1>{title}</h1><p>Smart MCQ Master - AI Admission Assistant</p></div>
+      <div className="items">
+        {type === 'questions' && (items as Question[]).map((q, i) => (
+          <QuestionCard key={q.id} q={q} index={i} showAnswer={inlineAnswers} note={options.questionsOnly ? undefined : userNotes[q.id]} chat={options.tutorChats && !options.questionsOnly ? tutorChats[q.id] : undefined} />
+        ))}
+        {type === 'written' && (items as WrittenQuestion[]).map((w, i) => (
+          <WrittenCard key={w.id} w={w} index={i} showAnswer={inlineAnswers} />
+        ))}
+        {type === 'notes' && (items as NoteSection[]).map(n => <NoteCard key={n.id} n={n} />)}
+      </div>
+
+      {keyAtEnd && type === 'questions' && (
+        <div className="answer-key">
+          <h2>Answer Key</h2>
+          <div className="key-grid">
+            {(items as Question[]).map((q, i) => <div key={q.id} className="key-cell"><b>{i + 1}.</b> {answerLabel(q)}</div>)}
+          </div>
+          {(items as Question[]).some(q => q.explanation) && <h2>Explanations</h2>}
+          {(items as Question[]).map((q, i) => q.explanation && (
+            <div key={q.id} className="card">
+              <span className="answer-label">Q{i + 1} — {answerLabel(q)}</span>
+              <MathText text={q.explanation} />
+            </div>
+          ))}
+        </div>
+      )}
+      {keyAtEnd && type === 'written' && (
+        <div className="answer-key">
+          <h2>Solutions</h2>
+          {(items as WrittenQuestion[]).map((w, i) => (
+            <div key={w.id} className="card">
+              <span className="answer-label">Q{i + 1} — Model Solution:</span>
+              <MathText text={w.answer} />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Self-contained printable HTML: math and Markdown are rendered here with the bundled
+ * KaTeX/react-markdown, and the KaTeX stylesheet is inlined, so nothing is fetched from a CDN.
+ * Printing waits for fonts instead of a fixed delay.
+ */
+export const buildPrintHtml = (props: PrintDocumentProps): string => {
+  const body = renderToStaticMarkup(<PrintDocument {...props} />);
+  const escapedTitle = props.title.replace(/[<>&"]/g, ch => `&#${ch.charCodeAt(0)};`);
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="UTF-8" />
+    <title>${escapedTitle}</title>
+    <style>${katexCss}</style>
+    <style>${PRINT_CSS}</style>
+  </head>
+  <body>
+    ${body}
+    <script>
+      (document.fonts ? document.fonts.ready : Promise.resolve()).then(function () { window.print(); });
+    </script>
+  </body>
+</html>`;
+};
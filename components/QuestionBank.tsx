@@ -0,0 +1,59 @@
+import React from 'react';
+import { BankEntry, UploadMode } from '../types';
+import { BookOpenIcon } from './Icons';
+
+interface QuestionBankProps {
+  entries: BankEntry[];
+  onOpen: (entry: BankEntry) => void;
+  onMerge: (entry: BankEntry) => void;
+  onDelete: (entry: BankEntry) => void;
+}
+
+const MODE_LABELS: Record<UploadMode, string> = {
+  extract: 'এক্সট্র্যাক্ট',
+  generate: 'MCQ তৈরি',
+  written: 'লিখিত',
+  notes: 'নোটস',
+};
+
+const QuestionBank: React.FC<QuestionBankProps> = ({ entries, onOpen, onMerge, onDelete }) => {
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="w-full max-w-md px-4 md:px-0 mt-10 text-left">
+      <h3 className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-3 flex items-center gap-2">
+        <span className="[&>svg]:w-5 [&>svg]:h-5"><BookOpenIcon /></span> প্রশ্ন ব্যাংক (আগের আপলোড)
+      </h3>
+      <div className="space-y-2 max-h-80 overflow-y-auto pr-1">
+        {entries.map(entry => {
+          const counts = [
+            entry.questions.length > 0 && `${entry.questions.length} MCQ`,
+            entry.writtenQuestions.length > 0 && `${entry.writtenQuestions.length} লিখিত`,
+            entry.notes.length > 0 && `${entry.notes.length} নোট`,
+          ].filter(Boolean).join(' • ');
+
+          return (
+            <div key={entry.id} className="bg-neutral-900 border border-neutral-800 rounded-xl p-3">
+              <div className="flex justify-between items-start gap-2 mb-2">
+                <div className="min-w-0">
+                  <p className="text-sm font-bold text-white truncate">{entry.fileName}</p>
+                  <p className="text-xs text-secondary">
+                    {entry.examType.toUpperCase()} • {MODE_LABELS[entry.mode]} • {new Date(entry.createdAt).toLocaleDateString()}
+                  </p>
+                </div>
+                <span className="text-xs text-red-400 font-mono flex-shrink-0">{counts}</span>
+              </div>
+              <div className="flex gap-2">
+                <button onClick={() => onOpen(entry)} className="px-3 py-1.5 rounded-lg bg-red-600 text-white text-xs font-bold hover:bg-red-500 transition-all">খুলুন</button>
+                <button onClick={() => onMerge(entry)} className="px-3 py-1.5 rounded-lg bg-neutral-800 text-gray-200 text-xs font-bold hover:bg-neutral-700 transition-all">যুক্ত করুন</button>
+                <button onClick={() => onDelete(entry)} className="ml-auto px-3 py-1.5 rounded-lg text-gray-500 text-xs hover:text-red-400 transition-all">মুছুন</button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default QuestionBank;
@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { Difficulty, Question, QuestionKind, Subject } from '../types';
+import { generateUniqueId } from '../services/geminiService';
+import { validateQuestion, optionLabel } from '../services/answerKey';
+import { SUBJECTS, SUBJECT_LABELS } from '../services/examBuilder';
+import { DIFFICULTIES, DIFFICULTY_LABELS, KIND_LABELS, QUESTION_KINDS } from '../services/generationPlan';
+import MathText from './MathText';
+import ExplanationBox from './ExplanationBox';
+import { PencilIcon } from './Icons';
+
+interface QuestionEditorProps {
+  questions: Question[];
+  onChange: (questions: Question[]) => void;
+  onClose: () => void;
+}
+
+// Keeps correctAnswer pointing at the option the user picked, even while that option's text is cleared and retyped
+const withAnswerIndex = (q: Question, correctIndex: number | undefined): Question => {
+  if (correctIndex === undefined || correctIndex >= q.options.length) return validateQuestion({ ...q, correctIndex: undefined });
+  return { ...q, correctIndex, correctAnswer: q.options[correctIndex], needsReview: false };
+};
+
+// Once editing ends, a correct option left empty gives nothing to mark answers against
+const settle = (q: Question): Question =>
+  q.correctIndex !== undefined && !q.options[q.correctIndex]?.trim() ? { ...q, needsReview: true } : q;
+
+const QuestionEditor: React.FC<QuestionEditorProps> = ({ questions, onChange, onClose }) => {
+  const [editingId, setEditingId] = useState<number | null>(null);
+
+  // The question being edited, settled now that it is being left
+  const settled = (list: Question[]) => list.map(q => (q.id === editingId ? settle(q) : q));
+
+  const edit = (id: number | null) => {
+    if (editingId !== null) onChange(settled(questions));
+    setEditingId(id);
+  };
+
+  const close = () => {
+    onChange(settled(questions));
+    onClose();
+  };
+
+  const update = (id: number, patch: Partial<Question>) => {
+    onChange(questions.map(q => {
+      if (q.id !== id) return q;
+      const next = { ...q, ...patch };
+      return withAnswerIndex(next, 'correctIndex' in patch ? patch.correctIndex : q.correctIndex);
+    }));
+  };
+
+  const updateOption = (q: Question, idx: number, value: string) => {
+    update(q.id, { options: q.options.map((o, i) => (i === idx ? value : o)) });
+  };
+
+  const removeOption = (q: Question, idx: number) => {
+    const options = q.options.filter((_, i) => i !== idx);
+    let correctIndex = q.correctIndex;
+    if (correctIndex === idx) correctIndex = undefined;
+    else if (correctIndex !== undefined && correctIndex > idx) correctIndex--;
+    update(q.id, { options, correctIndex });
+  };
+
+  const addQuestion = () => {
+    const fresh: Question = { id: generateUniqueId(), text: '', options: ['', '', '', ''], correctAnswer: '', needsReview: true };
+    onChange([...settled(questions), fresh]);
+    setEditingId(fresh.id);
+  };
+
+  const removeQuestion = (id: number) => {
+    if (!window.confirm("প্রশ্নটি মুছে ফেলবেন?")) return;
+    onChange(questions.filter(q => q.id !== id));
+    if (editingId === id) setEditingId(null);
+  };
+
+  const move = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= questions.length) return;
+    const next = [...questions];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const inputCls = "w-full bg-black border border-neutral-700 rounded-lg px-3 py-2 text-white text-sm font-mono focus:outline-none focus:border-red-500";
+
+  return (
+    <div className="max-w-4xl mx-auto w-full md:p-4 p-0 animate-fade-in">
+      <div className="flex justify-between items-center mb-6 px-4 pt-4 md:px-0">
+        <h2 className="text-2xl font-bold text-white flex items-center gap-3"><PencilIcon filled={false} /> প্রশ্ন এডিটর ({questions.length})</h2>
+        <div className="flex gap-2">
+          <button onClick={addQuestion} className="px-4 py-2 bg-neutral-800 text-white rounded-lg text-sm font-bold hover:bg-neutral-700">+ নতুন প্রশ্ন</button>
+          <button onClick={close} className="px-4 py-2 bg-red-600 text-white rounded-lg text-sm font-bold hover:bg-red-500">সম্পন্ন</button>
+        </div>
+      </div>
+
+      <div className="md:space-y-4 space-y-0">
+        {questions.map((q, index) => {
+          const isEditing = editingId === q.id;
+          return (
+            <div key={q.id} className={`md:bg-surface bg-transparent md:rounded-2xl md:border border-b ${q.needsReview ? 'md:border-yellow-500/40' : 'md:border-neutral-800'} border-neutral-900 md:p-6 p-5`}>
+              <div className="flex justify-between items-start gap-3 mb-3">
+                <span className="text-xs font-mono text-secondary">
+                  Q{index + 1}
+                  {(q.subject || q.chapter || q.topic) && <span className="ml-2 text-gray-400">{[q.subject && SUBJECT_LABELS[q.subject], q.chapter, q.topic].filter(Boolean).join(' › ')}</span>}
+                  {(q.difficulty || q.kind) && <span className="ml-2 text-gray-500">{[q.difficulty && DIFFICULTY_LABELS[q.difficulty], q.kind && KIND_LABELS[q.kind]].filter(Boolean).join(' · ')}</span>}
+                  {q.needsReview && <span className="ml-2 text-yellow-400">উত্তর যাচাই প্রয়োজন</span>}
+                </span>
+                <div className="flex gap-1 flex-shrink-0 text-xs">
+                  <button onClick={() => move(index, -1)} disabled={index === 0} className="px-2 py-1 rounded bg-neutral-900 text-gray-400 disabled:opacity-30">↑</button>
+                  <button onClick={() => move(index, 1)} disabled={index === questions.length - 1} className="px-2 py-1 rounded bg-neutral-900 text-gray-400 disabled:opacity-30">↓</button>
+                  <button onClick={() => edit(isEditing ? null : q.id)} className="px-3 py-1 rounded bg-neutral-800 text-white font-bold">{isEditing ? 'বন্ধ' : 'এডিট'}</button>
+                  <button onClick={() => removeQuestion(q.id)} className="px-3 py-1 rounded text-gray-500 hover:text-red-400">মুছুন</button>
+                </div>
+              </div>
+
+              {isEditing && (
+                <div className="space-y-3 mb-4">
+                  <textarea value={q.text} onChange={(e) => update(q.id, { text: e.target.value })} placeholder="প্রশ্ন (LaTeX এর জন্য $...$)" className={`${inputCls} min-h-[90px]`} />
+                  {q.options.map((opt, idx) => (
+                    <div key={idx} className="flex items-center gap-2">
+                      <input type="radio" name={`correct-${q.id}`} checked={q.correctIndex === idx} onChange={() => update(q.id, { correctIndex: idx })} className="accent-green-500" title="সঠিক উত্তর" />
+                      <span className="w-5 font-mono text-xs text-secondary">{optionLabel(q, idx)}.</span>
+                      <input value={opt} onChange={(e) => updateOption(q, idx, e.target.value)} className={inputCls} />
+                      <button onClick={() => removeOption(q, idx)} className="px-2 text-gray-500 hover:text-red-400">✕</button>
+                    </div>
+                  ))}
+                  {q.options.length < 5 && <button onClick={() => update(q.id, { options: [...q.options, ''] })} className="text-xs text-red-400 hover:text-red-300">+ অপশন যোগ করুন</button>}
+                  <div className="grid grid-cols-3 gap-2">
+                    <select value={q.subject || ''} onChange={(e) => update(q.id, { subject: (e.target.value || undefined) as Subject | undefined })} className={inputCls}>
+                      <option value="">বিষয় নেই</option>
+                      {SUBJECTS.map(s => <option key={s} value={s}>{SUBJECT_LABELS[s]}</option>)}
+                    </select>
+                    <input value={q.chapter || ''} onChange={(e) => update(q.id, { chapter: e.target.value || undefined })} placeholder="অধ্যায়" className={inputCls} />
+                    <input value={q.topic || ''} onChange={(e) => update(q.id, { topic: e.target.value || undefined })} placeholder="টপিক" className={inputCls} />
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    <select value={q.difficulty || ''} onChange={(e) => update(q.id, { difficulty: (e.target.value || undefined) as Difficulty | undefined })} className={inputCls}>
+                      <option value="">কাঠিন্য নেই</option>
+                      {DIFFICULTIES.map(d => <option key={d} value={d}>{DIFFICULTY_LABELS[d]}</option>)}
+                    </select>
+                    <select value={q.kind || ''} onChange={(e) => update(q.id, { kind: (e.target.value || undefined) as QuestionKind | undefined })} className={inputCls}>
+                      <option value="">ধরন নেই</option>
+                      {QUESTION_KINDS.map(k => <option key={k} value={k}>{KIND_LABELS[k]}</option>)}
+                    </select>
+                  </div>
+                  <textarea value={q.explanation || ''} onChange={(e) => update(q.id, { explanation: e.target.value || undefined })} placeholder="ব্যাখ্যা (উত্তর দেওয়ার পর দেখানো হবে)" className={`${inputCls} min-h-[70px]`} />
+                  <p className="text-xs text-secondary pt-2 border-t border-neutral-800">প্রিভিউ</p>
+                </div>
+              )}
+
+              <div className="text-lg font-bold text-white mb-3 break-words"><MathText text={q.text || '—'} /></div>
+              <div className="grid gap-2">
+                {q.options.map((opt, idx) => (
+                  <div key={idx} className={`p-3 rounded-xl border text-sm flex items-start ${q.correctIndex === idx ? 'border-green-600 bg-green-900/20 text-green-100' : 'border-neutral-800 bg-neutral-900/50 text-gray-300'}`}>
+                    <span className="w-6 font-mono opacity-50 mr-2 flex-shrink-0">{optionLabel(q, idx)}.</span>
+                    <span className="flex-1 min-w-0 break-words"><MathText text={opt || '—'} inline /></span>
+                  </div>
+                ))}
+              </div>
+              {q.explanation && <ExplanationBox text={q.explanation} />}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default QuestionEditor;
@@ -0,0 +1,96 @@
+import React, { useState, useEffect } from 'react';
+import { ReviewCard } from '../types';
+import { recordReview } from '../services/spacedRepetition';
+import { optionLabel } from '../services/answerKey';
+import MathText from './MathText';
+import AIChat from './AIChat';
+import ExplanationBox from './ExplanationBox';
+import { ClockIcon, SparklesIcon } from './Icons';
+
+interface ReviewSessionProps {
+  cards: ReviewCard[];
+  onExit: () => void;
+}
+
+const ReviewSession: React.FC<ReviewSessionProps> = ({ cards, onExit }) => {
+  const [index, setIndex] = useState(0);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [seconds, setSeconds] = useState(0);
+  const [correctCount, setCorrectCount] = useState(0);
+  const [showTutor, setShowTutor] = useState(false);
+
+  const card = cards[index];
+
+  useEffect(() => {
+    if (!card || selected !== null) return;
+    const id = window.setInterval(() => setSeconds(s => s + 1), 1000);
+    return () => clearInterval(id);
+  }, [card, selected]);
+
+  const handleSelect = (option: string) => {
+    if (!card || selected !== null) return;
+    const correct = option === card.question.correctAnswer;
+    setSelected(option);
+    if (correct) setCorrectCount(c => c + 1);
+    recordReview(card.question, correct, seconds).catch(err => console.error("Failed to save review", err));
+  };
+
+  const next = () => {
+    setIndex(i => i + 1);
+    setSelected(null);
+    setSeconds(0);
+    setShowTutor(false);
+  };
+
+  if (!card) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[50vh] animate-fade-in p-4 text-center">
+        <h2 className="text-3xl font-bold text-white mb-4">আজকের রিভিউ শেষ!</h2>
+        {cards.length > 0 && <p className="text-secondary mb-8">{cards.length} টির মধ্যে {correctCount} টি সঠিক</p>}
+        <button onClick={onExit} className="px-6 py-3 rounded-xl bg-neutral-800 text-white hover:bg-neutral-700 transition-colors font-medium">ফিরে যান</button>
+      </div>
+    );
+  }
+
+  const q = card.question;
+  const wrongBefore = card.history.filter(h => !h.correct).length;
+
+  return (
+    <div className="max-w-4xl mx-auto w-full md:p-4 animate-fade-in">
+      <div className="flex justify-between items-center mb-6 px-4 md:px-0">
+        <div className="text-sm font-mono text-secondary">রিভিউ {index + 1} / {cards.length}{wrongBefore > 0 && ` • আগে ${wrongBefore} বার ভুল`}</div>
+        <div className="flex items-center gap-2 px-4 py-2 rounded-full border bg-neutral-900 border-neutral-800">
+          <ClockIcon /> <span className="font-mono font-bold text-white">{seconds}s</span>
+        </div>
+      </div>
+
+      <div className="md:bg-surface bg-transparent md:rounded-2xl md:p-10 p-0 md:shadow-2xl md:border md:border-neutral-800 border-0 w-full overflow-hidden">
+        <div className="text-xl md:text-2xl font-bold text-white leading-relaxed break-words mb-8 px-4 md:px-0"><MathText text={q.text} /></div>
+        <div className="grid gap-3 px-2 md:px-0">
+          {q.options.map((option, idx) => {
+            const isSelected = selected === option;
+            const isCorrect = option === q.correctAnswer;
+            let cls = "p-4 rounded-xl border-2 text-left transition-all flex items-start w-full overflow-hidden ";
+            if (selected !== null) cls += isCorrect ? "border-green-600 bg-green-900/20 text-green-100" : isSelected ? "border-red-600 bg-red-900/20 text-red-100" : "border-neutral-800 bg-neutral-900/50 opacity-60";
+            else cls += "border-neutral-800 bg-neutral-900/50 hover:border-red-500/50 hover:bg-neutral-800";
+            return (
+              <button key={idx} onClick={() => handleSelect(option)} disabled={selected !== null} className={cls}>
+                <span className="w-6 font-mono opacity-50 mr-2 flex-shrink-0">{optionLabel(card.question, idx)}.</span>
+                <span className="flex-1 min-w-0 break-words whitespace-normal text-sm md:text-base"><MathText text={option} inline /></span>
+              </button>
+            );
+          })}
+        </div>
+        {selected !== null && q.explanation && <div className="px-2 md:px-0"><ExplanationBox text={q.explanation} /></div>}
+        <div className="mt-8 md:border-t md:border-neutral-800 pt-6 flex justify-between items-center px-4 md:px-0">
+          <button onClick={onExit} className="px-6 py-2.5 rounded-xl bg-neutral-800 text-gray-300">বন্ধ করুন</button>
+          {selected !== null && <button onClick={() => setShowTutor(!showTutor)} className="px-4 py-2 bg-red-500/10 text-red-400 rounded-lg text-sm font-bold flex items-center gap-2"><SparklesIcon /> {showTutor ? 'টিউটর বন্ধ' : 'AI টিউটর'}</button>}
+          <button onClick={next} disabled={selected === null} className="px-6 py-2.5 rounded-xl bg-white text-black font-bold disabled:opacity-30">পরবর্তী</button>
+        </div>
+        {showTutor && <AIChat question={q} chosenAnswer={selected ?? undefined} />}
+      </div>
+    </div>
+  );
+};
+
+export default ReviewSession;
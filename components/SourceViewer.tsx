@@ -0,0 +1,73 @@
+import React, { useEffect, useState } from 'react';
+import { SourceRef } from '../types';
+import { getSourceFile } from '../services/sourceFiles';
+import { renderPdfPage } from '../services/pdfRender';
+
+interface SourceViewerProps {
+  source: SourceRef;
+  onClose: () => void;
+}
+
+type ViewState = { status: 'loading' } | { status: 'ready'; src: string } | { status: 'missing' } | { status: 'error'; message: string };
+
+const SourceViewer: React.FC<SourceViewerProps> = ({ source, onClose }) => {
+  const [view, setView] = useState<ViewState>({ status: 'loading' });
+
+  useEffect(() => {
+    let cancelled = false;
+    let objectUrl: string | null = null;
+    setView({ status: 'loading' });
+
+    (async () => {
+      const stored = source.fileId ? await getSourceFile(source.fileId) : undefined;
+      if (!stored) return { status: 'missing' } as ViewState;
+      if (stored.mimeType === 'application/pdf') return { status: 'ready', src: await renderPdfPage(stored.blob, source.page ?? 1) } as ViewState;
+      objectUrl = URL.createObjectURL(stored.blob);
+      return { status: 'ready', src: objectUrl } as ViewState;
+    })()
+      .catch(err => ({ status: 'error', message: err?.message || String(err) }) as ViewState)
+      .then(next => { if (!cancelled) setView(next); });
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [source.fileId, source.page]);
+
+  const box = source.box;
+
+  return (
+    <div className="bg-neutral-950 border border-neutral-800 rounded-2xl overflow-hidden animate-fade-in text-left">
+      <div className="flex justify-between items-center px-4 py-3 border-b border-neutral-800">
+        <p className="text-xs text-secondary truncate">
+          <span className="font-bold text-gray-300">{source.fileName}</span>{source.page !== undefined && ` • পৃষ্ঠা ${source.page}`}
+        </p>
+        <button onClick={onClose} className="px-2 text-gray-500 hover:text-red-400">✕</button>
+      </div>
+
+      <div className="p-4">
+        {view.status === 'loading' && <div className="h-40 flex items-center justify-center"><div className="w-8 h-8 border-4 border-red-500 border-t-transparent rounded-full animate-spin" /></div>}
+        {view.status === 'missing' && <p className="text-sm text-gray-500">মূল ফাইলটি এই ডিভাইসে সংরক্ষিত নেই।</p>}
+        {view.status === 'error' && <p className="text-sm text-red-400">পৃষ্ঠাটি দেখানো যায়নি: {view.message}</p>}
+        {view.status === 'ready' && (
+          <div className="relative max-h-[70vh] overflow-auto rounded-lg bg-white">
+            <div className="relative">
+              <img src={view.src} alt={source.fileName} className="w-full h-auto block" />
+              {box && (
+                <div
+                  className="absolute border-2 border-red-500 bg-red-500/10 rounded pointer-events-none"
+                  style={{ left: `${box.x * 100}%`, top: `${box.y * 100}%`, width: `${box.width * 100}%`, height: `${box.height * 100}%` }}
+                />
+              )}
+            </div>
+          </div>
+        )}
+        {source.snippet && (
+          <blockquote className="mt-4 border-l-2 border-red-600 pl-3 text-sm text-gray-400 whitespace-pre-line break-words">{source.snippet}</blockquote>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SourceViewer;
@@ -0,0 +1,150 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { WrittenGrade, WrittenQuestion } from '../types';
+import { fileToGenerativePart, gradeWrittenAnswer } from '../services/geminiService';
+import { MAX_UPLOAD_BASE64_CHARS, shrinkImage } from '../services/chunking';
+import { LLM_ERROR_LABELS, toLLMError } from '../services/llmErrors';
+import MathText from './MathText';
+import { SparklesIcon, UploadIcon } from './Icons';
+
+interface WrittenPracticeProps {
+  question: WrittenQuestion;
+  history: WrittenGrade[]; // newest first
+  onGraded: (grade: WrittenGrade) => void;
+}
+
+const scoreColor = (grade: WrittenGrade) => {
+  const ratio = grade.maxMarks > 0 ? grade.score / grade.maxMarks : 0;
+  return ratio >= 0.8 ? 'text-green-400' : ratio >= 0.5 ? 'text-yellow-400' : 'text-red-400';
+};
+
+const WrittenPractice: React.FC<WrittenPracticeProps> = ({ question, history, onGraded }) => {
+  const [text, setText] = useState('');
+  const [photo, setPhoto] = useState<File | null>(null);
+  const [photoUrl, setPhotoUrl] = useState<string | null>(null);
+  const [isGrading, setIsGrading] = useState(false);
+  const [status, setStatus] = useState('');
+  const [error, setError] = useState('');
+  const [shownId, setShownId] = useState<string | null>(history[0]?.id ?? null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  useEffect(() => {
+    if (!photo) { setPhotoUrl(null); return; }
+    const url = URL.createObjectURL(photo);
+    setPhotoUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [photo]);
+
+  const shown = history.find(g => g.id === shownId) ?? history[0];
+
+  // Phone photos are several MB; a smaller copy keeps the request under the server's body limit.
+  // Formats the browser cannot decode (HEIC outside Safari) are sent as they are.
+  const photoPart = async (file: File) => {
+    try {
+      return await shrinkImage(file);
+    } catch (err) {
+      console.warn("Could not resize the photo, sending it as is", err);
+      return { mimeType: file.type, data: await fileToGenerativePart(file) };
+    }
+  };
+
+  const grade = async () => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsGrading(true);
+    setError('');
+    setStatus('');
+    try {
+      const image = photo ? await photoPart(photo) : undefined;
+      if (image && image.data.length > MAX_UPLOAD_BASE64_CHARS) {
+        setError('ছবিটি পাঠানোর জন্য অনেক বড়। ছোট বা কম রেজোলিউশনের ছবি দিন (JPEG/PNG)।');
+        return;
+      }
+      const result = await gradeWrittenAnswer(question, { text, image }, controller.signal, (err, attempt, delayMs) => {
+        setStatus(`${LLM_ERROR_LABELS[err.kind]} — ${Math.ceil(delayMs / 1000)} সেকেন্ড পর আবার চেষ্টা (${attempt})`);
+      });
+      onGraded(result);
+      setShownId(result.id);
+    } catch (e) {
+      const err = toLLMError(e);
+      if (err.kind !== 'aborted') setError(`মূল্যায়ন করা যায়নি: ${LLM_ERROR_LABELS[err.kind]}`);
+    } finally {
+      setIsGrading(false);
+      setStatus('');
+    }
+  };
+
+  return (
+    <div className="bg-neutral-900/50 p-6 border-t border-neutral-800 space-y-4">
+      <h4 className="text-sm font-bold text-red-400 uppercase">নিজে উত্তর লিখে যাচাই করুন ({question.marks} Marks)</h4>
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder="তোমার সমাধান এখানে লেখো (গণিতের জন্য $...$)..."
+        className="w-full bg-black border border-neutral-700 rounded-xl p-4 text-white focus:outline-none focus:border-red-500 min-h-[140px] placeholder-gray-600"
+      />
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="px-4 py-2 rounded-lg bg-neutral-800 text-gray-300 text-sm font-bold hover:bg-neutral-700 cursor-pointer flex items-center gap-2 [&>svg]:w-4 [&>svg]:h-4">
+          <UploadIcon /> হাতে লেখা খাতার ছবি
+          <input type="file" accept="image/png, image/jpeg, image/webp, image/heic, image/heif" className="hidden" onChange={(e) => { setPhoto(e.target.files?.[0] ?? null); e.target.value = ''; }} />
+        </label>
+        {photoUrl && (
+          <div className="flex items-center gap-2">
+            <img src={photoUrl} alt="" className="h-12 w-12 object-cover rounded-lg border border-neutral-700" />
+            <button onClick={() => setPhoto(null)} className="text-xs text-gray-500 hover:text-red-400">সরান</button>
+          </div>
+        )}
+        <button onClick={grade} disabled={isGrading || (!text.trim() && !photo)} className="ml-auto px-4 py-2 rounded-lg bg-red-600 text-white text-sm font-bold hover:bg-red-500 disabled:bg-neutral-800 disabled:text-neutral-500 flex items-center gap-2">
+          <SparklesIcon /> {isGrading ? 'মূল্যায়ন হচ্ছে...' : 'AI দিয়ে মূল্যায়ন'}
+        </button>
+      </div>
+      {status && <p className="text-xs text-yellow-400">{status}</p>}
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {shown && (
+        <div className="rounded-xl border border-neutral-800 bg-black/40 p-4 space-y-4">
+          <div className="flex items-baseline justify-between gap-3">
+            <span className="text-xs text-secondary">{new Date(shown.gradedAt).toLocaleString()}{shown.fromPhoto && ' · ছবি থেকে'}</span>
+            <span className={`text-3xl font-bold font-mono ${scoreColor(shown)}`}>{shown.score}<span className="text-base text-secondary">/{shown.maxMarks}</span></span>
+          </div>
+          {shown.rubric.length > 0 && (
+            <div className="space-y-2">
+              {shown.rubric.map((item, idx) => (
+                <div key={idx} className="text-sm border-b border-neutral-800 pb-2 last:border-0">
+                  <div className="flex justify-between gap-3">
+                    <span className="font-bold text-gray-200">{item.criterion}</span>
+                    <span className="font-mono text-gray-400 flex-shrink-0">{item.awarded}/{item.max}</span>
+                  </div>
+                  <div className="text-gray-400 text-xs mt-1"><MathText text={item.comment} /></div>
+                </div>
+              ))}
+            </div>
+          )}
+          <div className="text-gray-300 prose prose-invert max-w-none text-sm"><MathText text={shown.feedback} /></div>
+          {shown.fromPhoto && shown.answerText && (
+            <details className="text-xs text-gray-400">
+              <summary className="cursor-pointer text-secondary">ছবি থেকে যা পড়া হয়েছে</summary>
+              <div className="mt-2"><MathText text={shown.answerText} /></div>
+            </details>
+          )}
+        </div>
+      )}
+
+      {history.length > 1 && (
+        <div>
+          <p className="text-xs text-secondary mb-2">আগের মূল্যায়ন</p>
+          <div className="flex flex-wrap gap-2">
+            {history.map(g => (
+              <button key={g.id} onClick={() => setShownId(g.id)} title={new Date(g.gradedAt).toLocaleString()} className={`px-3 py-1 rounded-lg text-xs font-mono border ${g.id === shown?.id ? 'border-red-500 text-white' : 'border-neutral-800 text-gray-400 hover:text-white'}`}>
+                {new Date(g.gradedAt).toLocaleDateString()} · <span className={scoreColor(g)}>{g.score}/{g.maxMarks}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WrittenPractice;
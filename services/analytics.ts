@@ -0,0 +1,171 @@
+import { ExamFilter, ExamMode, ExamSession, ExamType, Question, Subject } from "../types";
+import { STORES, getAll, putOne } from "./localDb";
+import { EMPTY_FILTER, matchesFilter } from "./examBuilder";
+
+// Areas with fewer answers than this are too noisy to call weak
+const MIN_ATTEMPTS_FOR_WEAK = 3;
+const WEAK_ACCURACY = 0.6;
+const TREND_SESSIONS = 20;
+
+export const recordExamSession = async (
+    questions: Question[],
+    answers: Record<number, string>,
+    answerTimes: Record<number, number>,
+    mode: ExamMode,
+    examType: ExamType,
+    durationSeconds: number,
+    seed: number | null = null
+): Promise<ExamSession> => {
+    const finishedAt = Date.now();
+    const session: ExamSession = {
+        id: `${finishedAt}`,
+        finishedAt,
+        mode,
+        examType,
+        durationSeconds,
+        ...(seed !== null && { seed }),
+        // Questions without a trusted answer key cannot be marked right or wrong
+        attempts: questions.filter(q => !q.needsReview).map(q => ({
+            question: q,
+            ...(answers[q.id] !== undefined && { answer: answers[q.id] }),
+            correct: answers[q.id] === q.correctAnswer,
+            ...(answerTimes[q.id] !== undefined && { seconds: answerTimes[q.id] }),
+        })),
+    };
+    await putOne(STORES.sessions, session);
+    return session;
+};
+
+// Oldest first
+export const listExamSessions = async (): Promise<ExamSession[]> => {
+    const sessions = await getAll<ExamSession>(STORES.sessions);
+    return sessions.sort((a, b) => a.finishedAt - b.finishedAt);
+};
+
+// Totals for one subject, or one subject/chapter/topic combination
+export interface AreaStats {
+    key: string;
+    subject?: Subject;
+    chapter?: string;
+    topic?: string;
+    attempted: number;
+    correct: number;
+    skipped: number;
+    accuracy: number; // 0-1
+    avgSeconds?: number; // over answers with a recorded time
+}
+
+export interface TrendPoint {
+    sessionId: string;
+    finishedAt: number;
+    accuracy: number;
+    avgSeconds?: number;
+}
+
+export interface AnalyticsSummary {
+    sessions: number;
+    overall: AreaStats;
+    bySubject: AreaStats[];
+    byTopic: AreaStats[];
+    slowest: AreaStats[];
+    weakAreas: AreaStats[];
+    trend: TrendPoint[];
+}
+
+interface Tally {
+    area: Omit<AreaStats, 'attempted' | 'correct' | 'skipped' | 'accuracy' | 'avgSeconds'>;
+    attempted: number;
+    correct: number;
+    skipped: number;
+    seconds: number;
+    timed: number;
+}
+
+const tallyOf = (area: Tally['area']): Tally => ({ area, attempted: 0, correct: 0, skipped: 0, seconds: 0, timed: 0 });
+
+const add = (tally: Tally, correct: boolean, skipped: boolean, seconds?: number) => {
+    tally.attempted++;
+    if (correct) tally.correct++;
+    if (skipped) tally.skipped++;
+    if (seconds !== undefined) { tally.seconds += seconds; tally.timed++; }
+};
+
+const toStats = ({ area, attempted, correct, skipped, seconds, timed }: Tally): AreaStats => ({
+    ...area,
+    attempted,
+    correct,
+    skipped,
+    accuracy: attempted > 0 ? correct / attempted : 0,
+    ...(timed > 0 && { avgSeconds: seconds / timed }),
+});
+
+/**
+ * Aggregates every stored exam. Topic rows fall back to the chapter when a question has no topic;
+ * questions with neither are only counted per subject.
+ */
+export const summarize = (sessions: ExamSession[]): AnalyticsSummary => {
+    const overall = tallyOf({ key: 'all' });
+    const subjects = new Map<string, Tally>();
+    const topics = new Map<string, Tally>();
+    const tally = (map: Map<string, Tally>, area: Tally['area']) => {
+        if (!map.has(area.key)) map.set(area.key, tallyOf(area));
+        return map.get(area.key)!;
+    };
+
+    const trend: TrendPoint[] = sessions.slice(-TREND_SESSIONS).map(session => {
+        const t = tallyOf({ key: session.id });
+        session.attempts.forEach(a => add(t, a.correct, a.answer === undefined, a.seconds));
+        const stats = toStats(t);
+        return { sessionId: session.id, finishedAt: session.finishedAt, accuracy: stats.accuracy, ...(stats.avgSeconds !== undefined && { avgSeconds: stats.avgSeconds }) };
+    });
+
+    sessions.forEach(session => session.attempts.forEach(({ question: q, answer, correct, seconds }) => {
+        const skipped = answer === undefined;
+        add(overall, correct, skipped, seconds);
+        add(tally(subjects, { key: q.subject || '', ...(q.subject && { subject: q.subject }) }), correct, skipped, seconds);
+        if (q.chapter || q.topic) {
+            const area = {
+                key: [q.subject || '', q.chapter || '', q.topic || ''].join('|'),
+                ...(q.subject && { subject: q.subject }),
+                ...(q.chapter && { chapter: q.chapter }),
+                ...(q.topic && { topic: q.topic }),
+            };
+            add(tally(topics, area), correct, skipped, seconds);
+        }
+    }));
+
+    const byTopic = [...topics.values()].map(toStats).sort((a, b) => b.attempted - a.attempted);
+    return {
+        sessions: sessions.length,
+        overall: toStats(overall),
+        bySubject: [...subjects.values()].map(toStats).sort((a, b) => b.attempted - a.attempted),
+        byTopic,
+        slowest: byTopic.filter(t => t.avgSeconds !== undefined).sort((a, b) => b.avgSeconds! - a.avgSeconds!).slice(0, 5),
+        weakAreas: byTopic
+            .filter(t => t.attempted >= MIN_ATTEMPTS_FOR_WEAK && t.accuracy < WEAK_ACCURACY)
+            .sort((a, b) => a.accuracy - b.accuracy || (b.avgSeconds ?? 0) - (a.avgSeconds ?? 0)),
+        trend,
+    };
+};
+
+// An area without a chapter or topic means questions without one, not questions with any
+export const areaFilter = (area: AreaStats): ExamFilter => ({
+    ...EMPTY_FILTER,
+    subjects: area.subject ? [area.subject] : [],
+    chapters: area.chapter ? [area.chapter] : [],
+    topics: area.topic ? [area.topic] : [],
+    area: { subject: area.subject, chapter: area.chapter, topic: area.topic },
+});
+
+/** Questions for a targeted practice run: every known question in the area, first occurrence of each id wins. */
+export const questionsInArea = (area: AreaStats, sources: Question[][]): Question[] => {
+    const filter = areaFilter(area);
+    const seen = new Set<number>();
+    const result: Question[] = [];
+    sources.flat().forEach(q => {
+        if (seen.has(q.id) || !matchesFilter(q, filter)) return;
+        seen.add(q.id);
+        result.push(q);
+    });
+    return result;
+};
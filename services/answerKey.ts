@@ -0,0 +1,85 @@
+import { Question } from "../types";
+import { normalizeText, similarity } from "./textMatch";
+
+const FUZZY_MIN_SCORE = 0.75;
+const FUZZY_MIN_MARGIN = 0.1;
+
+// A-E and ক-ঙ map to option positions 0-4. Digits are left out: "3" is more often a numeric answer than a label.
+const LABEL_SETS = ['abcde', 'কখগঘঙ'];
+
+const labelToIndex = (label: string): number => {
+    const lower = label.toLowerCase();
+    for (const set of LABEL_SETS) {
+        const idx = set.indexOf(lower);
+        if (idx !== -1) return idx;
+    }
+    return -1;
+};
+
+// Options are shown lettered in the script the question is written in
+export const optionLabel = (question: Pick<Question, 'text'>, index: number): string =>
+    (/[\u0980-\u09FF]/.test(question.text) ? 'কখগঘঙ' : 'ABCDE')[index] || String(index + 1);
+
+// "(গ)", "C", "Option B", "উত্তর: খ" — optionally followed by the option text after a closing ")", "." or ":"
+const LABEL_PATTERN = /^\s*(?:option|ans(?:wer)?|উত্তর|সঠিক উত্তর)?\s*[:\-]?\s*[(\[]?\s*([A-Ea-eক-ঙ])\s*(?:[)\].:]\s*(.*))?$/iu;
+
+// Index of the only option equal to `text`, or -1 when none or several are (normalized options can collide)
+const uniqueIndex = (options: string[], text: string): number => {
+    const idx = options.indexOf(text);
+    return idx !== -1 && options.indexOf(text, idx + 1) === -1 ? idx : -1;
+};
+
+/**
+ * Maps a free-text answer key onto one of the options: exact text, then normalized text
+ * (LaTeX/punctuation insensitive, only when a single option matches), then a letter label like "(গ)" or "C", then fuzzy similarity.
+ * Returns -1 when no option can be picked with confidence.
+ */
+export const resolveAnswerIndex = (options: string[], answer: string): number => {
+    if (!answer || options.length === 0) return -1;
+
+    const exact = options.indexOf(answer);
+    if (exact !== -1) return exact;
+
+    const normalizedAnswer = normalizeText(answer);
+    const normalizedOptions = options.map(normalizeText);
+    const normalized = uniqueIndex(normalizedOptions, normalizedAnswer);
+    if (normalized !== -1 && normalizedAnswer !== "") return normalized;
+
+    const labelMatch = answer.match(LABEL_PATTERN);
+    if (labelMatch) {
+        const idx = labelToIndex(labelMatch[1]);
+        const rest = labelMatch[2] ? normalizeText(labelMatch[2]) : "";
+        const byRest = rest ? uniqueIndex(normalizedOptions, rest) : -1;
+        if (byRest !== -1) return byRest;
+        if (idx !== -1 && idx < options.length) return idx;
+    }
+
+    const scores = normalizedOptions.map(opt => similarity(opt, normalizedAnswer));
+    const ranked = scores.map((score, idx) => ({ score, idx })).sort((a, b) => b.score - a.score);
+    const [best, runnerUp] = ranked;
+    if (best.score >= FUZZY_MIN_SCORE && best.score - (runnerUp?.score ?? 0) >= FUZZY_MIN_MARGIN) return best.idx;
+
+    return -1;
+};
+
+// Options such as "ক ও খ" or "A and C" that consist only of other options' letters
+const REFERENCE_PATTERN = /^\s*[(\[]?\s*[A-Ea-eক-ঙ]\s*[)\]]?(?:\s*(?:,|&|ও|এবং|বা|and|or)\s*[(\[]?\s*[A-Ea-eক-ঙ]\s*[)\]]?)+\s*$/iu;
+const STANDALONE_LABEL = /(^|[^A-Za-z\u0980-\u09FF])([A-Ea-eক-ঙ])(?![A-Za-z\u0980-\u09FF])/gu;
+
+/** Re-letters an option that refers to other options by letter, after the options have been reordered. Other options are returned unchanged. */
+export const relabelReferences = (option: string, newIndexOf: (oldIndex: number) => number): string => {
+    if (!REFERENCE_PATTERN.test(option)) return option;
+    return option.replace(STANDALONE_LABEL, (match, before: string, label: string) => {
+        const set = LABEL_SETS.find(s => s.includes(label.toLowerCase()));
+        const next = set?.[newIndexOf(set.indexOf(label.toLowerCase()))];
+        if (!next) return match;
+        return before + (label !== label.toLowerCase() ? next.toUpperCase() : next);
+    });
+};
+
+// Rewrites correctAnswer to the exact option text it refers to, or flags the question for review
+export const validateQuestion = (question: Question): Question => {
+    const idx = resolveAnswerIndex(question.options, question.correctAnswer);
+    if (idx === -1) return { ...question, correctIndex: undefined, needsReview: true };
+    return { ...question, correctAnswer: question.options[idx], correctIndex: idx, needsReview: false };
+};
@@ -0,0 +1,140 @@
+import { SourceRef } from "../types";
+import { FilePart } from "./llmProvider";
+
+const PAGES_PER_CHUNK = 5;
+// Longest side, in pixels, an image may have before it is cut into overlapping tiles
+const MAX_TILE_SIDE = 2048;
+const TILE_OVERLAP = 0.08;
+// Vercel rejects request bodies over 4.5 MB; this leaves room for the JSON around one base64 file
+export const MAX_UPLOAD_BASE64_CHARS = 4_000_000;
+
+// A piece of an uploaded file that is sent to the model on its own
+export interface FileChunk {
+    fileData: FilePart;
+    startPage?: number; // 1-based page range for PDF chunks; images have none
+    endPage?: number;
+    pageCount?: number; // pages in the whole PDF
+    tile?: SourceRef['box']; // where an image tile sits in the full image
+    label: string;
+}
+
+const bytesToBase64 = (bytes: Uint8Array): string => {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    return btoa(binary);
+};
+
+export const splitPdf = async (bytes: ArrayBuffer, pagesPerChunk = PAGES_PER_CHUNK): Promise<FileChunk[]> => {
+    const { PDFDocument } = await import("pdf-lib");
+    const source = await PDFDocument.load(bytes);
+    const pageCount = source.getPageCount();
+    const chunks: FileChunk[] = [];
+    for (let start = 0; start < pageCount; start += pagesPerChunk) {
+        const indices = Array.from({ length: Math.min(pagesPerChunk, pageCount - start) }, (_, i) => start + i);
+        const part = await PDFDocument.create();
+        (await part.copyPages(source, indices)).forEach(page => part.addPage(page));
+        const startPage = start + 1;
+        const endPage = start + indices.length;
+        chunks.push({
+            fileData: { mimeType: 'application/pdf', data: await part.saveAsBase64() },
+            startPage,
+            endPage,
+            pageCount,
+            label: startPage === endPage ? `পৃষ্ঠা ${startPage}` : `পৃষ্ঠা ${startPage}–${endPage}`,
+        });
+    }
+    return chunks;
+};
+
+const canvasToBase64 = (canvas: HTMLCanvasElement): Promise<string> => new Promise((resolve, reject) => {
+    canvas.toBlob(async blob => {
+        if (!blob) { reject(new Error("Could not encode image tile.")); return; }
+        resolve(bytesToBase64(new Uint8Array(await blob.arrayBuffer())));
+    }, 'image/jpeg', 0.9);
+});
+
+// Cuts along the longer side so a tall scanned page becomes a few readable strips
+export const tileImage = async (file: Blob): Promise<FileChunk[] | null> => {
+    const bitmap = await createImageBitmap(file);
+    try {
+        const { width, height } = bitmap;
+        if (Math.max(width, height) <= MAX_TILE_SIDE) return null;
+        const vertical = height >= width;
+        const length = vertical ? height : width;
+        const count = Math.ceil(length / MAX_TILE_SIDE);
+        const step = length / count;
+        const overlap = Math.round(step * TILE_OVERLAP);
+        const chunks: FileChunk[] = [];
+        for (let i = 0; i < count; i++) {
+            const from = Math.max(0, Math.round(i * step) - overlap);
+            const to = Math.min(length, Math.round((i + 1) * step) + overlap);
+            const canvas = document.createElement('canvas');
+            canvas.width = vertical ? width : to - from;
+            canvas.height = vertical ? to - from : height;
+            const ctx = canvas.getContext('2d');
+            if (!ctx) throw new Error("Canvas is not available for tiling.");
+            ctx.drawImage(bitmap, vertical ? 0 : from, vertical ? from : 0, canvas.width, canvas.height, 0, 0, canvas.width, canvas.height);
+            const tile = vertical
+                ? { x: 0, y: from / length, width: 1, height: (to - from) / length }
+                : { x: from / length, y: 0, width: (to - from) / length, height: 1 };
+            chunks.push({ fileData: { mimeType: 'image/jpeg', data: await canvasToBase64(canvas) }, tile, label: `অংশ ${i + 1}/${count}` });
+        }
+        return chunks;
+    } finally {
+        bitmap.close();
+    }
+};
+
+/** Scales an image down to at most MAX_TILE_SIDE on its longest side and re-encodes it, for requests that send one picture whole. */
+export const shrinkImage = async (file: Blob): Promise<FilePart> => {
+    const bitmap = await createImageBitmap(file);
+    try {
+        const scale = Math.min(1, MAX_TILE_SIDE / Math.max(bitmap.width, bitmap.height));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(bitmap.width * scale);
+        canvas.height = Math.round(bitmap.height * scale);
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error("Canvas is not available for resizing.");
+        ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+        return { mimeType: 'image/jpeg', data: await canvasToBase64(canvas) };
+    } finally {
+        bitmap.close();
+    }
+};
+
+/**
+ * PDFs become page ranges and oversized images become tiles. Anything that cannot be split
+ * (encrypted or malformed PDFs, undecodable images) is returned as a single chunk.
+ */
+export const chunkFile = async (file: File, base64: string): Promise<FileChunk[]> => {
+    const whole: FileChunk[] = [{ fileData: { mimeType: file.type, data: base64 }, label: file.name }];
+    try {
+        if (file.type === 'application/pdf') return await splitPdf(await file.arrayBuffer());
+        if (file.type.startsWith('image/')) return (await tileImage(file)) ?? whole;
+    } catch (error) {
+        console.warn(`Could not split ${file.name}, sending it whole`, error);
+    }
+    return whole;
+};
+
+// Maps the model's page index within a chunk (1-based) to the page in the original PDF
+export const pageInDocument = (chunk: FileChunk, pageInChunk: unknown): number | undefined => {
+    if (chunk.startPage === undefined || chunk.endPage === undefined) return undefined;
+    const offset = Number(pageInChunk);
+    if (!Number.isInteger(offset) || offset < 1) return chunk.startPage;
+    return Math.min(chunk.endPage, chunk.startPage + offset - 1);
+};
+
+// Gemini-style [ymin, xmin, ymax, xmax] on a 0-1000 scale, relative to the chunk, mapped onto the full page or image
+export const boxInDocument = (chunk: FileChunk | undefined, box: unknown): SourceRef['box'] => {
+    if (!Array.isArray(box) || box.length !== 4) return undefined;
+    const [ymin, xmin, ymax, xmax] = box.map(v => Number(v) / 1000);
+    if (![ymin, xmin, ymax, xmax].every(v => v >= 0 && v <= 1) || ymax <= ymin || xmax <= xmin) return undefined;
+    const tile = chunk?.tile ?? { x: 0, y: 0, width: 1, height: 1 };
+    return {
+        x: tile.x + xmin * tile.width,
+        y: tile.y + ymin * tile.height,
+        width: (xmax - xmin) * tile.width,
+        height: (ymax - ymin) * tile.height,
+    };
+};
@@ -0,0 +1,118 @@
+import { ExamConfig, ExamFilter, Question, Subject } from "../types";
+
+export const SUBJECTS: Subject[] = ['Physics', 'Chemistry', 'Higher Math', 'Biology', 'English', 'Bangla'];
+
+export const SUBJECT_LABELS: Record<Subject, string> = {
+    Physics: 'পদার্থবিজ্ঞান',
+    Chemistry: 'রসায়ন',
+    'Higher Math': 'উচ্চতর গণিত',
+    Biology: 'জীববিজ্ঞান',
+    English: 'ইংরেজি',
+    Bangla: 'বাংলা',
+};
+
+export const EMPTY_FILTER: ExamFilter = { subjects: [], chapters: [], topics: [], perSubject: {} };
+
+// Spellings the model and hand-made CSVs use besides the canonical names
+const SUBJECT_ALIASES: Record<string, Subject> = {
+    physics: 'Physics',
+    'পদার্থবিজ্ঞান': 'Physics',
+    'পদার্থ বিজ্ঞান': 'Physics',
+    chemistry: 'Chemistry',
+    'রসায়ন': 'Chemistry',
+    'higher math': 'Higher Math',
+    'higher mathematics': 'Higher Math',
+    math: 'Higher Math',
+    maths: 'Higher Math',
+    mathematics: 'Higher Math',
+    'উচ্চতর গণিত': 'Higher Math',
+    'গণিত': 'Higher Math',
+    biology: 'Biology',
+    'জীববিজ্ঞান': 'Biology',
+    english: 'English',
+    'ইংরেজি': 'English',
+    bangla: 'Bangla',
+    bengali: 'Bangla',
+    'বাংলা': 'Bangla',
+};
+
+export const toSubject = (raw: unknown): Subject | undefined =>
+    typeof raw === 'string' ? SUBJECT_ALIASES[raw.trim().toLowerCase().replace(/\s+/g, ' ')] : undefined;
+
+const cleanTag = (raw: unknown): string | undefined => {
+    if (typeof raw !== 'string') return undefined;
+    const tag = raw.trim().replace(/\s+/g, ' ');
+    return tag || undefined;
+};
+
+/** Subject, chapter and topic from loosely typed input, leaving out anything empty or unrecognised. */
+export const toTags = (subject: unknown, chapter: unknown, topic: unknown): Pick<Question, 'subject' | 'chapter' | 'topic'> => {
+    const s = toSubject(subject);
+    const c = cleanTag(chapter);
+    const t = cleanTag(topic);
+    return { ...(s && { subject: s }), ...(c && { chapter: c }), ...(t && { topic: t }) };
+};
+
+export const isFiltered = (filter: ExamFilter) =>
+    filter.subjects.length > 0 || filter.chapters.length > 0 || filter.topics.length > 0 || Object.values(filter.perSubject).some(n => (n ?? 0) > 0) || !!filter.area;
+
+export const matchesFilter = (q: Question, filter: ExamFilter) =>
+    (filter.subjects.length === 0 || (q.subject !== undefined && filter.subjects.includes(q.subject))) &&
+    (filter.chapters.length === 0 || (q.chapter !== undefined && filter.chapters.includes(q.chapter))) &&
+    (filter.topics.length === 0 || (q.topic !== undefined && filter.topics.includes(q.topic))) &&
+    (!filter.area || (q.subject === filter.area.subject && q.chapter === filter.area.chapter && q.topic === filter.area.topic));
+
+// Fisher-Yates on a copy
+export const shuffle = <T>(items: T[], random: () => number = Math.random): T[] => {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+};
+
+/**
+ * Picks the exam paper: questions matching the filter, capped per subject and then by the overall
+ * count. Without shuffling the paper keeps the bank's order; with it, both the picks and the order are random.
+ */
+export const selectExamQuestions = (questions: Question[], config: ExamConfig, random: () => number = Math.random): Question[] => {
+    const { filter } = config;
+    let pool = questions.filter(q => matchesFilter(q, filter));
+    if (config.shuffle) pool = shuffle(pool, random);
+
+    const taken = new Map<Subject, number>();
+    pool = pool.filter(q => {
+        const limit = q.subject ? filter.perSubject[q.subject] ?? 0 : 0;
+        if (!q.subject || limit <= 0) return true;
+        const count = taken.get(q.subject) ?? 0;
+        taken.set(q.subject, count + 1);
+        return count < limit;
+    });
+
+    return config.questionCount > 0 ? pool.slice(0, config.questionCount) : pool;
+};
+
+// Tag counts behind the exam setup filter controls
+export interface TagIndex {
+    subjects: Map<Subject, number>;
+    untagged: number;
+    chapters: Map<string, number>;
+    topics: Map<string, number>;
+}
+
+/** Counts tags among questions; chapters and topics only from those still matching the subject (and chapter) choice. */
+export const indexTags = (questions: Question[], filter: ExamFilter): TagIndex => {
+    const index: TagIndex = { subjects: new Map(), untagged: 0, chapters: new Map(), topics: new Map() };
+    const bump = (map: Map<any, number>, key: unknown) => map.set(key, (map.get(key) ?? 0) + 1);
+    questions.forEach(q => {
+        if (q.subject) bump(index.subjects, q.subject);
+        else index.untagged++;
+        const subjectOk = filter.subjects.length === 0 || (q.subject !== undefined && filter.subjects.includes(q.subject));
+        if (!subjectOk) return;
+        if (q.chapter) bump(index.chapters, q.chapter);
+        const chapterOk = filter.chapters.length === 0 || (q.chapter !== undefined && filter.chapters.includes(q.chapter));
+        if (chapterOk && q.topic) bump(index.topics, q.topic);
+    });
+    return index;
+};
@@ -1,5 +1,14 @@
-import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { Question, NoteSection, WrittenQuestion, ExamType } from "../types";
+import { Question, NoteSection, WrittenQuestion, ExamType, DuplicateGroup, SourceRef, RubricItem, WrittenGrade, GenerationSettings, ChatMessage } from "../types";
+import { getProvider, FilePart, ChatSession, LLMTask, ResponseSchema } from "./llmProvider";
+import { MCQ_SCHEMA, NOTES_SCHEMA, WRITTEN_SCHEMA, GRADE_SCHEMA } from "./schemas";
+import { normalizeText, similarity } from "./textMatch";
+import { validateQuestion } from "./answerKey";
+import { LLMError, toLLMError } from "./llmErrors";
+import { createRetryBudget, withRetry } from "./retry";
+import { FileChunk, boxInDocument, pageInDocument } from "./chunking";
+import { toTags } from "./examBuilder";
+import { DEFAULT_GENERATION_SETTINGS, planGeneration, toLevel } from "./generationPlan";
+import { Excerpt, MAX_SOURCE_CHARS, TUTOR_OPENING_PROMPT, TaskParams, TutorContext, TutorParams, buildPrompt, buildTutorInstruction } from "./prompts";
 
 // Helper to convert file to base64
 export const fileToGenerativePart = async (file: File): Promise<string> => {
@@ -18,16 +27,23 @@ export const fileToGenerativePart = async (file: File): Promise<string> => {
   });
 };
 
-const getClient = () => {
-    const apiKey = process.env.API_KEY;
-    if (!apiKey) throw new Error("API Key not found. Please set the API_KEY environment variable.");
-    return new GoogleGenAI({ apiKey });
+// Provenance fields the model returns alongside every item
+interface SourceHints {
+    p?: number; // page, counted within the chunk when the file was split
+    s?: string; // verbatim source text
+    b?: number[]; // [ymin, xmin, ymax, xmax] on a 0-1000 scale
 }
 
-interface MinifiedQuestion {
+interface MinifiedQuestion extends SourceHints {
     q: string;
     o: string[];
     a: string;
+    sj?: string; // subject
+    ch?: string; // chapter
+    tp?: string; // topic
+    df?: string; // difficulty
+    kd?: string; // question kind
+    e?: string; // explanation, only asked for when wanted
 }
 
 const safeParseJSON = (jsonString: string): any[] => {
@@ -49,7 +65,7 @@ const safeParseJSON = (jsonString: string): any[] => {
             cleaned = cleaned.substring(0, lastObjectEnd + 1) + ']';
             try { return JSON.parse(cleaned); } catch (e) {}
         }
-        return []; 
+        throw new LLMError('invalid_json', `Model returned unparseable JSON: ${jsonString.substring(0, 120)}`);
     }
 };
 
@@ -88,217 +104,422 @@ const cleanLatex = (text: any): string => {
     return cleaned;
 };
 
-const generateUniqueId = () => Math.floor(Date.now() + Math.random() * 1000000);
+export const generateUniqueId = () => Math.floor(Date.now() + Math.random() * 1000000);
 
-interface FileData {
-    mimeType: string;
-    data: string;
+// The uploaded file items are attributed to
+export interface SourceFile {
+    fileName: string;
+    fileId?: string;
 }
 
+const MAX_SNIPPET_CHARS = 300;
+
+const toSource = (file: SourceFile | undefined, hints: SourceHints, chunk?: FileChunk): SourceRef | undefined => {
+    if (!file) return undefined;
+    const page = chunk ? pageInDocument(chunk, hints.p) : Number.isInteger(hints.p) && hints.p! >= 1 ? hints.p : undefined;
+    const snippet = typeof hints.s === 'string' ? hints.s.trim().substring(0, MAX_SNIPPET_CHARS) : '';
+    const box = boxInDocument(chunk, hints.b);
+    return { ...file, ...(page !== undefined && { page }), ...(snippet && { snippet }), ...(box && { box }) };
+};
+
+// One model call for `task`; the prompt is built from `params`, which is all the proxy sends
+const requestStructured = <T extends LLMTask>(task: T, params: TaskParams[T], schema: ResponseSchema, file: FilePart | undefined, signal?: AbortSignal) =>
+    getProvider().generateStructured({ task, prompt: buildPrompt(task, params), params, schema, file, signal });
+
+const excerptOf = (chunk: FileChunk): Excerpt | undefined =>
+    chunk.startPage !== undefined && chunk.endPage !== undefined && chunk.pageCount !== undefined
+        ? { startPage: chunk.startPage, endPage: chunk.endPage, pageCount: chunk.pageCount }
+        : undefined;
+
+// `level` is what the prompt asked for and wins over the model's own label
+const toQuestion = (mq: MinifiedQuestion, label?: string, source?: SourceRef, level: Pick<Question, 'difficulty' | 'kind'> = {}): Question => validateQuestion({
+    id: generateUniqueId(),
+    text: cleanLatex(label ? `[${label}] ${mq.q}` : mq.q),
+    options: (mq.o || []).map(opt => cleanLatex(opt)),
+    correctAnswer: cleanLatex(mq.a),
+    ...toTags(mq.sj, mq.ch, mq.tp),
+    ...toLevel(mq.df, mq.kd),
+    ...level,
+    // Kept verbatim: cleanLatex's repairs for mangled output also break valid commands like \frac
+    ...(typeof mq.e === 'string' && mq.e.trim() && { explanation: mq.e.trim() }),
+    ...(source && { source }),
+});
+
+const NEAR_DUPLICATE_THRESHOLD = 0.85;
+
+// Empty when the text normalizes away entirely (pure markup), so it can't be compared with anything
+const questionKey = (q: Question) => {
+    const text = normalizeText(q.text);
+    if (!text) return '';
+    const options = q.options.map(normalizeText).sort().join('|');
+    return `${text}#${options}`;
+};
+
+// Drops questions whose normalized text and option set already appear in `existing` or earlier in `incoming`
+export const dedupeQuestions = (existing: Question[], incoming: Question[]): Question[] => {
+    const seen = new Set(existing.map(questionKey).filter(Boolean));
+    return incoming.filter(q => {
+        const key = questionKey(q);
+        if (!key) return true;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+};
+
+/**
+ * Groups questions that are likely the same MCQ worded slightly differently
+ * (e.g. the same paper uploaded twice, or re-extracted across iterations).
+ * The earliest question of each group is kept.
+ */
+export const findNearDuplicates = (questions: Question[], threshold = NEAR_DUPLICATE_THRESHOLD): DuplicateGroup[] => {
+    const keys = questions.map(questionKey);
+    const parent = questions.map((_, i) => i);
+    const minScore = questions.map(() => 1);
+    const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+    for (let i = 0; i < questions.length; i++) {
+        for (let j = i + 1; j < questions.length; j++) {
+            if (!keys[i] || !keys[j] || find(i) === find(j)) continue;
+            const score = similarity(keys[i], keys[j]);
+            if (score < threshold) continue;
+            const [root, child] = [find(i), find(j)].sort((a, b) => a - b);
+            parent[child] = root;
+            minScore[root] = Math.min(minScore[root], minScore[child], score);
+        }
+    }
+
+    const groups = new Map<number, number[]>();
+    questions.forEach((_, i) => {
+        const root = find(i);
+        groups.set(root, [...(groups.get(root) || []), i]);
+    });
+
+    return Array.from(groups.entries())
+        .filter(([, members]) => members.length > 1)
+        .map(([root, members]) => ({
+            keep: questions[members[0]],
+            duplicates: members.slice(1).map(i => questions[i]),
+            similarity: minScore[root],
+        }));
+};
+
+export const removeDuplicates = (questions: Question[], groups: DuplicateGroup[]): Question[] => {
+    const drop = new Set(groups.flatMap(g => g.duplicates.map(d => d.id)));
+    return questions.filter(q => !drop.has(q.id));
+};
+
+export interface ExtractionReport {
+    complete: boolean; // false when the run stopped early on an error or abort
+    error?: LLMError;
+    nextChunk?: number; // for chunked runs, the first chunk that was not finished
+}
+
+export interface ChunkProgress {
+    chunk: FileChunk;
+    index: number;
+    total: number;
+}
+
+export interface PipelineOptions<T> {
+    existing?: T[]; // items from an earlier, interrupted run over the same file
+    source?: SourceFile;
+    startChunk?: number;
+    explain?: boolean; // MCQ pipelines: also write an explanation per question
+    onRetry?: (error: LLMError, attempt: number, delayMs: number) => void;
+    onProgress?: (progress: ChunkProgress) => void;
+}
+
+const stoppedBy = (error: unknown, nextChunk?: number): ExtractionReport => ({ complete: false, error: toLLMError(error), nextChunk });
+
+const inChunk = (chunk: FileChunk, page?: number) =>
+    chunk.startPage === undefined || (page !== undefined && page >= chunk.startPage && page <= chunk.endPage!);
+
 export const extractQuestions = async (
-    fileData: FileData, 
+    chunks: FileChunk[],
     onBatch: (newQuestions: Question[]) => void,
-    signal?: AbortSignal
-): Promise<void> => {
-  const ai = getClient();
-  let allQuestions: Question[] = [];
-  let hasMore = true;
-  let iteration = 0;
-
-  const schema: Schema = {
-    type: Type.ARRAY,
-    items: {
-      type: Type.OBJECT,
-      properties: {
-        q: { type: Type.STRING },
-        o: { type: Type.ARRAY, items: { type: Type.STRING } },
-        a: { type: Type.STRING }
-      },
-      required: ["q", "o", "a"]
-    }
-  };
+    signal?: AbortSignal,
+    { existing = [], source, startChunk = 0, explain = false, onRetry, onProgress }: PipelineOptions<Question> = {}
+): Promise<ExtractionReport> => {
+  const budget = createRetryBudget();
+  let allQuestions: Question[] = [...existing];
 
-  while (hasMore && iteration < 10) {
-    if (signal?.aborted) break;
-    iteration++;
-    try {
-        const prompt = `Extract every single MCQ from the document. This is iteration ${iteration}. 
-        Find questions NOT already extracted.
-        Math: Must use proper LaTeX $...$. Use \\frac for fractions and \\text{} for units.
-        JSON array: q, o, a.`;
-        
-        const response = await ai.models.generateContent({
-          model: 'gemini-3-flash-preview',
-          contents: { parts: [{ inlineData: { mimeType: fileData.mimeType, data: fileData.data } }, { text: prompt }] },
-          config: { responseMimeType: "application/json", responseSchema: schema }
-        });
-        const minified = safeParseJSON(response.text) as MinifiedQuestion[];
-        if (minified.length === 0) { hasMore = false; break; }
-        
-        const news = minified.map(mq => ({ id: generateUniqueId(), text: cleanLatex(mq.q), options: mq.o.map(opt => cleanLatex(opt)), correctAnswer: cleanLatex(mq.a) }));
-        allQuestions = [...allQuestions, ...news];
-        onBatch(news);
-        if (minified.length < 5 || allQuestions.length >= 300) hasMore = false;
-    } catch (error) { hasMore = false; }
+  for (let index = startChunk; index < chunks.length; index++) {
+    const chunk = chunks[index];
+    onProgress?.({ chunk, index, total: chunks.length });
+    // A few pages rarely need more than a handful of passes; an unsplit file may need many
+    const maxIterations = chunk.startPage === undefined ? 10 : 4;
+    let hasMore = true;
+    let iteration = 0;
+
+    while (hasMore && iteration < maxIterations) {
+      if (signal?.aborted) return stoppedBy(new LLMError('aborted', 'Aborted'), index);
+      iteration++;
+      try {
+          const known = allQuestions.filter(q => inChunk(chunk, q.source?.page)).map(q => normalizeText(q.text).substring(0, 40));
+          const minified = await withRetry(async () => safeParseJSON(
+              await requestStructured('extract', { iteration, excerpt: excerptOf(chunk), known, explain }, MCQ_SCHEMA, chunk.fileData, signal)
+          ) as MinifiedQuestion[], { budget, signal, onRetry });
+          if (minified.length === 0) { hasMore = false; break; }
+          
+          const parsed = minified.map(mq => toQuestion(mq, undefined, toSource(source, mq, chunk)));
+          const news = dedupeQuestions(allQuestions, parsed);
+          // The model is only repeating itself; nothing left to find
+          if (news.length === 0) { hasMore = false; break; }
+          allQuestions = [...allQuestions, ...news];
+          onBatch(news);
+          if (minified.length < 5) hasMore = false;
+      } catch (error) {
+          return stoppedBy(error, index);
+      }
+    }
   }
+  return { complete: true };
 };
 
+/**
+ * Generates MCQs to the given settings, one model call per planned batch. A run that stops early reports the
+ * batch it stopped at as `nextChunk`, so resuming with `startChunk` skips the batches already done.
+ */
 export const generateQuestionsFromSlides = async (
-    fileData: FileData,
+    fileData: FilePart,
     onBatch: (newQuestions: Question[]) => void,
     signal?: AbortSignal,
-    examType: ExamType = 'varsity'
-): Promise<void> => {
-    const ai = getClient();
-    let batches = [];
-    
-    if (examType === 'varsity') {
-        batches = [
-            { label: "Standard", prompt: "Generate as many high-quality MCQs as possible covering the whole document. Use Bengali and proper LaTeX." }
-        ];
-    } else {
-        const standard = examType === 'ckruet' ? "CKRUET (CUET/KUET/RUET)" : "BUET";
-        batches = [
-            { 
-                label: `${examType.toUpperCase()} Standard`, 
-                prompt: `Analyze the whole file and generate all possible standard MCQs for ${standard}. Use exactly 5 options.` 
-            }
-        ];
-    }
+    examType: ExamType = 'varsity',
+    { existing = [], source, startChunk = 0, explain = false, onRetry }: PipelineOptions<Question> = {},
+    settings: GenerationSettings = DEFAULT_GENERATION_SETTINGS
+): Promise<ExtractionReport> => {
+    const budget = createRetryBudget();
+    const batches = planGeneration(examType, settings);
+    let known: Question[] = [...existing];
 
-    const schema: Schema = {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            q: { type: Type.STRING },
-            o: { type: Type.ARRAY, items: { type: Type.STRING } },
-            a: { type: Type.STRING }
-          },
-          required: ["q", "o", "a"]
-        }
-    };
-
-    for (const batch of batches) {
-        if (signal?.aborted) break;
+    for (let index = startChunk; index < batches.length; index++) {
+        const batch = batches[index];
+        if (signal?.aborted) return stoppedBy(new LLMError('aborted', 'Aborted'), index);
         try {
-            const prompt = `${batch.prompt}. STRICT: Use \\frac for fractions, \\text{} for units, and wrap everything in $...$. Bengali language. JSON output.`;
-            const response = await ai.models.generateContent({
-                model: 'gemini-3-flash-preview',
-                contents: { parts: [{ inlineData: { mimeType: fileData.mimeType, data: fileData.data } }, { text: prompt }] },
-                config: { responseMimeType: "application/json", responseSchema: schema }
-            });
-            const minified = safeParseJSON(response.text) as MinifiedQuestion[];
-            if (minified.length > 0) {
-                onBatch(minified.map(mq => ({ id: generateUniqueId(), text: cleanLatex(`[${batch.label}] ${mq.q}`), options: mq.o.map(opt => cleanLatex(opt)), correctAnswer: cleanLatex(mq.a) })));
-            }
-        } catch (error) {}
+            const minified = await withRetry(async () => safeParseJSON(
+                await requestStructured('generate', { examType, settings, batch: index, explain }, MCQ_SCHEMA, fileData, signal)
+            ) as MinifiedQuestion[], { budget, signal, onRetry });
+            const level = {
+                ...(batch.difficulty && { difficulty: batch.difficulty }),
+                ...(settings.kinds.length === 1 && { kind: settings.kinds[0] }),
+            };
+            const news = dedupeQuestions(known, minified.map(mq => toQuestion(mq, batch.label, toSource(source, mq), level)));
+            known = [...known, ...news];
+            if (news.length > 0) onBatch(news);
+        } catch (error) {
+            return stoppedBy(error, index);
+        }
     }
+    return { complete: true };
 };
 
 export const generateStudyNotes = async (
-    fileData: FileData,
+    fileData: FilePart,
     onBatch: (newNotes: NoteSection[]) => void,
     signal?: AbortSignal,
-    examType: ExamType = 'varsity'
-): Promise<void> => {
-    const ai = getClient();
-    const schema: Schema = {
-        type: Type.ARRAY,
-        items: {
-            type: Type.OBJECT,
-            properties: { title: { type: Type.STRING }, content: { type: Type.STRING }, importance: { type: Type.STRING, enum: ["High", "Medium", "Normal"] } },
-            required: ["title", "content", "importance"]
-        }
-    };
-    const prompt = `Comprehensive notes for ${examType.toUpperCase()}. Bengali. Math in $...$. Use proper LaTeX commands.`;
-    const response = await ai.models.generateContent({
-        model: 'gemini-3-flash-preview',
-        contents: { parts: [{ inlineData: { mimeType: fileData.mimeType, data: fileData.data } }, { text: prompt }] },
-        config: { responseMimeType: "application/json", responseSchema: schema }
-    });
-    const notes = safeParseJSON(response.text) as Omit<NoteSection, 'id'>[];
-    onBatch(notes.map(n => ({ id: generateUniqueId(), ...n, content: cleanLatex(n.content) })));
+    examType: ExamType = 'varsity',
+    { existing = [], source, onRetry }: PipelineOptions<NoteSection> = {}
+): Promise<ExtractionReport> => {
+    try {
+        const notes = await withRetry(async () => safeParseJSON(
+            await requestStructured('notes', { examType }, NOTES_SCHEMA, fileData, signal)
+        ) as (Omit<NoteSection, 'id'> & SourceHints)[], { budget: createRetryBudget(), signal, onRetry });
+        const seenTitles = new Set(existing.map(n => normalizeText(n.title)));
+        onBatch(notes
+            .filter(n => !seenTitles.has(normalizeText(n.title)))
+            .map(({ p, s, b, ...n }) => {
+                const ref = toSource(source, { p, s });
+                return { id: generateUniqueId(), ...n, content: cleanLatex(n.content), ...(ref && { source: ref }) };
+            }));
+        return { complete: true };
+    } catch (error) {
+        return stoppedBy(error);
+    }
 };
 
 export const generateWrittenQuestions = async (
-    fileData: FileData,
+    chunks: FileChunk[],
     onBatch: (newQuestions: WrittenQuestion[]) => void,
     signal?: AbortSignal,
-    examType: ExamType = 'buet'
-): Promise<void> => {
-    const ai = getClient();
-    let allExtracted: WrittenQuestion[] = [];
-    let hasMore = true;
-    let iteration = 0;
-    const MAX_ITERATIONS = 15; // Increased significantly to find ALL questions
-    
-    const schema: Schema = {
-        type: Type.ARRAY,
-        items: {
-            type: Type.OBJECT,
-            properties: { 
-                subject: { type: Type.STRING }, 
-                question: { type: Type.STRING }, 
-                answer: { type: Type.STRING }, 
-                marks: { type: Type.STRING }, 
-                type: { type: Type.STRING, enum: ["Theory", "Math", "Short Note"] } 
-            },
-            required: ["subject", "question", "answer", "marks", "type"]
-        }
-    };
+    examType: ExamType = 'buet',
+    { existing = [], source, startChunk = 0, onRetry, onProgress }: PipelineOptions<WrittenQuestion> = {}
+): Promise<ExtractionReport> => {
+    const budget = createRetryBudget();
+    let allExtracted: WrittenQuestion[] = [...existing];
 
-    while (hasMore && iteration < MAX_ITERATIONS) {
-        if (signal?.aborted) break;
-        iteration++;
-        
-        try {
-            const alreadyExtractedList = allExtracted.map(q => q.question.substring(0, 20)).join(', ');
-            const prompt = `Extract all WRITTEN questions from the source file. This is iteration ${iteration}.
-            Scan the entire document and extract questions NOT in this list: [${alreadyExtractedList}].
-            
-            STRICT RULES:
-            1. Language: Bengali.
-            2. LaTeX: Wrap all math in $...$. Use \\frac, \\times, \\text{}, etc. Do NOT skip backslashes.
-            3. Detailed Solve: 'answer' must be a full step-by-step markdown solution.
-            
-            Return a JSON array. If no more questions exist, return an empty array [].`;
+    for (let index = startChunk; index < chunks.length; index++) {
+        const chunk = chunks[index];
+        onProgress?.({ chunk, index, total: chunks.length });
+        const MAX_ITERATIONS = chunk.startPage === undefined ? 15 : 5; // An unsplit file needs many passes to find ALL questions
+        let hasMore = true;
+        let iteration = 0;
 
-            const response = await ai.models.generateContent({
-                model: 'gemini-3-flash-preview',
-                contents: { parts: [{ inlineData: { mimeType: fileData.mimeType, data: fileData.data } }, { text: prompt }] },
-                config: { responseMimeType: "application/json", responseSchema: schema }
-            });
+        while (hasMore && iteration < MAX_ITERATIONS) {
+            if (signal?.aborted) return stoppedBy(new LLMError('aborted', 'Aborted'), index);
+            iteration++;
             
-            const generated = safeParseJSON(response.text) as Omit<WrittenQuestion, 'id'>[];
-            if (generated.length === 0) {
-                hasMore = false;
-                break;
+            try {
+                const known = allExtracted.filter(q => inChunk(chunk, q.source?.page)).map(q => q.question.substring(0, 20));
+                const generated = await withRetry(async () => safeParseJSON(
+                    await requestStructured('written', { iteration, excerpt: excerptOf(chunk), known }, WRITTEN_SCHEMA, chunk.fileData, signal)
+                ) as (Omit<WrittenQuestion, 'id'> & SourceHints)[], { budget, signal, onRetry });
+                if (generated.length === 0) {
+                    hasMore = false;
+                    break;
+                }
+                
+                const seen = new Set(allExtracted.map(q => normalizeText(q.question)));
+                const news: WrittenQuestion[] = generated.map(({ p, s, b, ...q }) => {
+                    const ref = toSource(source, { p, s, b }, chunk);
+                    return {
+                        id: generateUniqueId(), 
+                        ...q, 
+                        subject: cleanLatex(q.subject || "General"), 
+                        question: cleanLatex(q.question), 
+                        answer: cleanLatex(q.answer),
+                        ...(ref && { source: ref }),
+                    };
+                }).filter(q => !seen.has(normalizeText(q.question)));
+                if (news.length === 0) {
+                    hasMore = false;
+                    break;
+                }
+                
+                allExtracted = [...allExtracted, ...news];
+                onBatch(news);
+                
+                // If less than 2 new questions found, we are likely at the end of the file
+                if (generated.length < 2) hasMore = false;
+            } catch (error) {
+                return stoppedBy(error, index);
             }
-            
-            const news = generated.map(q => ({ 
-                id: generateUniqueId(), 
-                ...q, 
-                subject: cleanLatex(q.subject || "General"), 
-                question: cleanLatex(q.question), 
-                answer: cleanLatex(q.answer) 
-            }));
-            
-            allExtracted = [...allExtracted, ...news];
-            onBatch(news);
-            
-            // If less than 2 new questions found, we are likely at the end of the file
-            if (generated.length < 2) hasMore = false;
-        } catch (error) {
-            hasMore = false;
         }
     }
+    return { complete: true };
 };
 
-export const createTutoringChat = (question: Question) => {
-    const ai = getClient();
-    return ai.chats.create({
-        model: 'gemini-3-flash-preview',
-        config: { systemInstruction: `Expert Admission Tutor. Bengali language. Use perfect LaTeX ($...$) for every variable, unit, and formula. Explain clearly step by step.` }
+// A student's attempt at a written question: typed, photographed, or both
+export interface WrittenAnswer {
+    text?: string;
+    image?: FilePart;
+}
+
+const MAX_ANSWER_CHARS = 6000;
+const DEFAULT_WRITTEN_MARKS = 10;
+
+const parseJSONObject = (jsonString: string): Record<string, any> => {
+    try {
+        const parsed = JSON.parse(jsonString);
+        if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) return parsed;
+    } catch (error) {}
+    throw new LLMError('invalid_json', `Model returned unparseable JSON: ${jsonString.substring(0, 120)}`);
+};
+
+// Grading output goes through the provider's JSON mode, so its LaTeX arrives intact and skips cleanLatex's repairs
+const asText = (value: unknown): string => (typeof value === 'string' ? value : '');
+
+// Marks are given in quarter steps and never outside 0..max
+const toMarks = (value: unknown, max: number): number => {
+    const n = Number(value);
+    if (!Number.isFinite(n)) return 0;
+    return Math.min(max, Math.max(0, Math.round(n * 4) / 4));
+};
+
+/**
+ * Scales the model's rubric so its max values add up to exactly maxMarks, scaling awarded marks alongside.
+ * A rubric with no marks to scale is dropped.
+ */
+const scaleRubric = (items: any[], maxMarks: number): RubricItem[] => {
+    const parsed = items.map(item => {
+        const max = Math.max(0, Number(item?.max) || 0);
+        return { criterion: asText(item?.criterion), max, awarded: Math.min(max, Math.max(0, Number(item?.awarded) || 0)), comment: asText(item?.comment) };
+    });
+    const total = parsed.reduce((sum, r) => sum + r.max, 0);
+    if (total <= 0) return [];
+    const factor = maxMarks / total;
+    const rubric = parsed.map(item => {
+        const max = toMarks(item.max * factor, maxMarks);
+        return { ...item, max, awarded: toMarks(item.awarded * factor, max) };
+    });
+    // Quarter-step rounding can leave the sum slightly off; the largest criterion absorbs the difference
+    const drift = maxMarks - rubric.reduce((sum, r) => sum + r.max, 0);
+    if (drift !== 0) {
+        const largest = rubric.reduce((a, b) => (b.max > a.max ? b : a));
+        largest.max = Math.max(0, largest.max + drift);
+        largest.awarded = Math.min(largest.awarded, largest.max);
+    }
+    return rubric;
+};
+
+/** Grades an answer against the model solution with a rubric summing to the question's marks. Rejects with an LLMError. */
+export const gradeWrittenAnswer = async (
+    question: WrittenQuestion,
+    answer: WrittenAnswer,
+    signal?: AbortSignal,
+    onRetry?: (error: LLMError, attempt: number, delayMs: number) => void
+): Promise<WrittenGrade> => {
+    const maxMarks = parseFloat(question.marks) > 0 ? parseFloat(question.marks) : DEFAULT_WRITTEN_MARKS;
+    const typed = (answer.text || '').trim().substring(0, MAX_ANSWER_CHARS);
+    const raw = await withRetry(async () => parseJSONObject(
+        await requestStructured('grade', {
+            subject: question.subject,
+            type: question.type,
+            question: question.question,
+            solution: question.answer,
+            maxMarks,
+            typed,
+            hasImage: !!answer.image,
+        }, GRADE_SCHEMA, answer.image, signal)
+    ), { budget: createRetryBudget(), signal, onRetry });
+
+    const rubric = scaleRubric(Array.isArray(raw.rubric) ? raw.rubric : [], maxMarks);
+    // The rubric is what the student sees, so the total follows it rather than the model's own sum
+    const score = toMarks(rubric.length > 0 ? rubric.reduce((sum, r) => sum + r.awarded, 0) : raw.score, maxMarks);
+    const gradedAt = Date.now();
+    return {
+        id: `${gradedAt}-${question.id}`,
+        questionId: question.id,
+        gradedAt,
+        answerText: answer.image && typeof raw.transcription === 'string' && raw.transcription.trim() ? raw.transcription.trim() : typed,
+        fromPhoto: !!answer.image,
+        score,
+        maxMarks,
+        rubric,
+        feedback: asText(raw.feedback),
+    };
+};
+
+// Well under the chat route's MAX_HISTORY_TURNS, leaving room for the turn being sent
+const MAX_TUTOR_TURNS = 40;
+
+/**
+ * The opening exchange plus the latest turns, starting on a student turn so roles still alternate.
+ * Long saved conversations stay whole on screen and in storage; only what is sent to the model is cut.
+ */
+const recentTurns = (turns: ChatMessage[]): ChatMessage[] => {
+    if (turns.length <= MAX_TUTOR_TURNS) return turns;
+    let start = turns.length - (MAX_TUTOR_TURNS - 2);
+    while (start < turns.length && turns[start].role !== 'user') start++;
+    return [...turns.slice(0, 2), ...turns.slice(start)];
+};
+
+/**
+ * `history` restores a saved conversation. Saved transcripts open with the tutor's explanation, so the hidden
+ * opening prompt is put back in front of it; chat APIs expect the first turn to be the user's.
+ */
+export const createTutoringChat = (question: Question, context: TutorContext = {}, history: ChatMessage[] = []): ChatSession => {
+    const turns: ChatMessage[] = history[0]?.role === 'model' ? [{ role: 'user', text: TUTOR_OPENING_PROMPT }, ...history] : history;
+    const recent = recentTurns(turns);
+    const { text, options, correctAnswer, needsReview, explanation, source } = question;
+    const tutor: TutorParams = {
+        question: { text, options, correctAnswer, needsReview, explanation, ...(source && { source: { fileName: source.fileName, page: source.page } }) },
+        context: { ...context, sourceText: context.sourceText?.trim().slice(0, MAX_SOURCE_CHARS) },
+        trimmed: recent.length < turns.length,
+    };
+    return getProvider().createChat({
+        systemInstruction: buildTutorInstruction(tutor),
+        tutor,
+        history: recent,
     });
-};
\ No newline at end of file
+};
@@ -0,0 +1,139 @@
+import { Difficulty, ExamType, GenerationSettings, Question, QuestionKind, Subject } from "../types";
+
+export const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard'];
+
+export const QUESTION_KINDS: QuestionKind[] = ['recall', 'numerical', 'conceptual', 'assertion-reason'];
+
+export const DIFFICULTY_LABELS: Record<Difficulty, string> = {
+    easy: 'সহজ',
+    medium: 'মাঝারি',
+    hard: 'কঠিন',
+};
+
+export const KIND_LABELS: Record<QuestionKind, string> = {
+    recall: 'তথ্যভিত্তিক',
+    numerical: 'গাণিতিক',
+    conceptual: 'ধারণাগত',
+    'assertion-reason': 'বিবৃতি-কারণ',
+};
+
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+    count: 0,
+    difficultyMix: { easy: 30, medium: 50, hard: 20 },
+    kinds: [],
+    subjects: [],
+};
+
+// The model drops quality (and starts repeating itself) past roughly this many questions in one response
+const MAX_PER_BATCH = 20;
+
+// What each difficulty means to the model, anchored to Bloom's taxonomy levels
+const DIFFICULTY_PROMPTS: Record<Difficulty, string> = {
+    easy: "easy (Bloom's Remember/Understand: a single fact, definition or direct formula use)",
+    medium: "medium (Bloom's Apply: one or two reasoning steps or a short calculation)",
+    hard: "hard (Bloom's Analyze/Evaluate: multi-step reasoning, combining concepts, traps a careless student falls into)",
+};
+
+const KIND_PROMPTS: Record<QuestionKind, string> = {
+    recall: 'recall (facts, definitions, laws, units)',
+    numerical: 'numerical (a calculation with a numeric answer; options are close numeric values)',
+    conceptual: 'conceptual (why/how, predicting an outcome, comparing cases)',
+    'assertion-reason': 'assertion-reason (state an Assertion (A) and a Reason (R) in q; options are the standard combinations such as: both true and R explains A; both true but R does not explain A; A true, R false; A false, R true)',
+};
+
+const DIFFICULTY_ALIASES: Record<string, Difficulty> = {
+    easy: 'easy',
+    medium: 'medium',
+    hard: 'hard',
+    'সহজ': 'easy',
+    'মাঝারি': 'medium',
+    'কঠিন': 'hard',
+};
+
+const KIND_ALIASES: Record<string, QuestionKind> = {
+    recall: 'recall',
+    numerical: 'numerical',
+    numeric: 'numerical',
+    conceptual: 'conceptual',
+    'assertion reason': 'assertion-reason',
+    assertion: 'assertion-reason',
+};
+
+const aliasOf = <T>(aliases: Record<string, T>, raw: unknown): T | undefined =>
+    typeof raw === 'string' ? aliases[raw.trim().toLowerCase().replace(/[\s_-]+/g, ' ')] : undefined;
+
+/** Difficulty and kind from loosely typed input, leaving out anything unrecognised. */
+export const toLevel = (difficulty: unknown, kind: unknown): Pick<Question, 'difficulty' | 'kind'> => {
+    const d = aliasOf(DIFFICULTY_ALIASES, difficulty);
+    const k = aliasOf(KIND_ALIASES, kind);
+    return { ...(d && { difficulty: d }), ...(k && { kind: k }) };
+};
+
+// Asks the model to label what it wrote, so extracted and generated questions carry the same fields
+export const LEVEL_INSTRUCTIONS = `Set df to each question's difficulty (${DIFFICULTIES.join(', ')}) and kd to its kind (${QUESTION_KINDS.join(', ')}).`;
+
+export interface GenerationBatch {
+    label: string;
+    prompt: string;
+    difficulty?: Difficulty;
+}
+
+/**
+ * Splits the requested count across difficulties by largest remainder so the batch sizes add up exactly.
+ * Weights that are all zero fall back to the default mix.
+ */
+export const splitByMix = (count: number, mix: Record<Difficulty, number>): Record<Difficulty, number> => {
+    const weights = DIFFICULTIES.map(d => Math.max(0, mix[d] || 0));
+    const total = weights.reduce((sum, w) => sum + w, 0);
+    const shares = total > 0 ? weights.map(w => (w / total) * count) : DIFFICULTIES.map(d => (DEFAULT_GENERATION_SETTINGS.difficultyMix[d] / 100) * count);
+    const counts = shares.map(Math.floor);
+    let left = count - counts.reduce((sum, n) => sum + n, 0);
+    shares
+        .map((share, i) => ({ i, rest: share - counts[i] }))
+        .sort((a, b) => b.rest - a.rest)
+        .forEach(({ i }) => { if (left > 0) { counts[i]++; left--; } });
+    return { easy: counts[0], medium: counts[1], hard: counts[2] };
+};
+
+const focusOf = (subjects: Subject[]) =>
+    subjects.length > 0 ? `Only cover ${subjects.join(', ')} content from the file; skip material from other subjects.` : '';
+
+const kindsOf = (kinds: QuestionKind[]) =>
+    kinds.length > 0
+        ? `Only write these kinds of question, spread evenly between them: ${kinds.map(k => KIND_PROMPTS[k]).join('; ')}.`
+        : `Mix question kinds as the material allows: ${QUESTION_KINDS.map(k => KIND_PROMPTS[k]).join('; ')}.`;
+
+const mixOf = (mix: Record<Difficulty, number>) => {
+    const split = splitByMix(100, mix);
+    return DIFFICULTIES.filter(d => split[d] > 0).map(d => `about ${split[d]}% ${DIFFICULTY_PROMPTS[d]}`).join(', ');
+};
+
+/**
+ * One prompt per model call. A fixed count is split by difficulty and into batches of at most MAX_PER_BATCH;
+ * a count of 0 keeps the old "as many as possible" single call, with the mix given as proportions.
+ */
+export const planGeneration = (examType: ExamType, settings: GenerationSettings): GenerationBatch[] => {
+    const standard = examType === 'varsity' ? '' : examType === 'ckruet' ? "CKRUET (CUET/KUET/RUET)" : "BUET";
+    const label = examType === 'varsity' ? 'Standard' : `${examType.toUpperCase()} Standard`;
+    const audience = standard ? ` for ${standard}. Use exactly 5 options.` : '.';
+    const common = [kindsOf(settings.kinds), focusOf(settings.subjects)].filter(Boolean).join(' ');
+
+    if (settings.count <= 0) {
+        const what = standard ? `Analyze the whole file and generate all possible standard MCQs${audience}` : `Generate as many high-quality MCQs as possible covering the whole document. Use Bengali and proper LaTeX.`;
+        return [{ label, prompt: `${what} Difficulty mix: ${mixOf(settings.difficultyMix)}. ${common}` }];
+    }
+
+    const counts = splitByMix(settings.count, settings.difficultyMix);
+    return DIFFICULTIES.flatMap(difficulty => {
+        const batches: GenerationBatch[] = [];
+        for (let left = counts[difficulty]; left > 0; left -= MAX_PER_BATCH) {
+            const n = Math.min(left, MAX_PER_BATCH);
+            batches.push({
+                label,
+                difficulty,
+                prompt: `Generate exactly ${n} distinct MCQs covering different parts of the file${audience} Every question must be ${DIFFICULTY_PROMPTS[difficulty]}. ${common}`,
+            });
+        }
+        return batches;
+    });
+};
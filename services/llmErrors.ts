@@ -0,0 +1,71 @@
+// Failures from model calls, sorted into the few cases the UI and the retry loop treat differently.
+
+export type LLMErrorKind = 'quota' | 'safety' | 'invalid_json' | 'network' | 'aborted' | 'unknown';
+
+const RETRYABLE: ReadonlySet<LLMErrorKind> = new Set(['quota', 'invalid_json', 'network']);
+
+export class LLMError extends Error {
+    readonly kind: LLMErrorKind;
+    readonly retryAfterMs?: number;
+
+    constructor(kind: LLMErrorKind, message: string, retryAfterMs?: number) {
+        super(message);
+        this.name = 'LLMError';
+        this.kind = kind;
+        this.retryAfterMs = retryAfterMs;
+    }
+
+    get retryable(): boolean {
+        return RETRYABLE.has(this.kind);
+    }
+}
+
+export const LLM_ERROR_LABELS: Record<LLMErrorKind, string> = {
+    quota: 'API কোটা/রেট লিমিট শেষ',
+    safety: 'নিরাপত্তা ফিল্টারে উত্তর আটকে গেছে',
+    invalid_json: 'AI এর উত্তর পড়া যায়নি',
+    network: 'নেটওয়ার্ক সমস্যা',
+    aborted: 'বাতিল করা হয়েছে',
+    unknown: 'অজানা ত্রুটি',
+};
+
+// HTTP statuses used by the API routes for each kind, and read back by the proxy provider
+export const STATUS_FOR_KIND: Record<LLMErrorKind, number> = {
+    quota: 429,
+    safety: 422,
+    invalid_json: 502,
+    network: 503,
+    aborted: 499,
+    unknown: 500,
+};
+
+const QUOTA_PATTERN = /\b429\b|quota|rate.?limit|resource.?exhausted|too many requests/i;
+const SAFETY_PATTERN = /safety|blocked|prohibited.?content|blocklist|recitation/i;
+const NETWORK_PATTERN = /fetch failed|failed to fetch|networkerror|network error|timed? ?out|timeout|econn|enotfound|socket|unavailable|deadline.?exceeded|\b50[0234]\b/i;
+
+// Gemini quota errors carry the server's suggested wait as "retryDelay":"30s" or "retry in 30.5s"
+const parseRetryDelay = (message: string): number | undefined => {
+    const match = message.match(/retryDelay"?\s*:\s*"(\d+(?:\.\d+)?)s"/) || message.match(/retry in (\d+(?:\.\d+)?)\s*s/i);
+    return match ? Math.ceil(Number(match[1]) * 1000) : undefined;
+};
+
+export const kindForStatus = (status: number): LLMErrorKind => {
+    if (status === 429) return 'quota';
+    if (status === 422) return 'safety';
+    if (status === 408 || status >= 500) return 'network';
+    return 'unknown';
+};
+
+export const toLLMError = (error: unknown): LLMError => {
+    if (error instanceof LLMError) return error;
+    const err = error as { name?: string; message?: string; status?: unknown };
+    const message = typeof err?.message === 'string' ? err.message : String(error);
+    if (err?.name === 'AbortError') return new LLMError('aborted', message);
+    if (error instanceof SyntaxError) return new LLMError('invalid_json', message);
+
+    const status = typeof err?.status === 'number' ? err.status : undefined;
+    if (status === 429 || QUOTA_PATTERN.test(message)) return new LLMError('quota', message, parseRetryDelay(message));
+    if (SAFETY_PATTERN.test(message)) return new LLMError('safety', message);
+    if ((status !== undefined && kindForStatus(status) === 'network') || NETWORK_PATTERN.test(message)) return new LLMError('network', message);
+    return new LLMError('unknown', message);
+};
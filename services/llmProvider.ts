@@ -0,0 +1,78 @@
+import { ChatMessage } from "../types";
+import { TaskParams, TutorParams } from "./prompts";
+import { createGeminiProvider } from "./providers/geminiProvider";
+import { createOpenAICompatibleProvider } from "./providers/openAICompatibleProvider";
+import { createMockProvider } from "./providers/mockProvider";
+import { createProxyProvider } from "./providers/proxyProvider";
+
+// What a structured request is for. Providers may ignore it; the mock uses it to pick a fixture.
+export type LLMTask = 'extract' | 'generate' | 'notes' | 'written' | 'grade';
+
+// The JSON Schema subset our prompts use, in standard lowercase form
+export interface ResponseSchema {
+    type: 'array' | 'object' | 'string' | 'number' | 'integer' | 'boolean';
+    items?: ResponseSchema;
+    properties?: Record<string, ResponseSchema>;
+    required?: string[];
+    enum?: string[];
+}
+
+export interface FilePart {
+    mimeType: string;
+    data: string; // base64
+}
+
+export interface StructuredRequest {
+    task: LLMTask;
+    prompt: string; // built from params with buildPrompt
+    params: TaskParams[LLMTask]; // what the proxy sends instead of the prompt
+    schema: ResponseSchema;
+    file?: FilePart;
+    signal?: AbortSignal;
+}
+
+export interface ChatOptions {
+    systemInstruction: string; // built from tutor with buildTutorInstruction
+    tutor: TutorParams; // what the proxy sends instead of the instruction
+    history?: ChatMessage[]; // prior turns to restore
+}
+
+export interface ChatSession {
+    // Yields text deltas as they arrive
+    sendMessageStream: (message: string, signal?: AbortSignal) => AsyncIterable<string>;
+}
+
+export interface LLMProvider {
+    name: string;
+    // Returns the raw model text, expected to be JSON matching `schema`
+    generateStructured: (request: StructuredRequest) => Promise<string>;
+    createChat: (options: ChatOptions) => ChatSession;
+}
+
+export type ProviderName = 'proxy' | 'gemini' | 'openai' | 'mock';
+
+let activeProvider: LLMProvider | null = null;
+
+const createProvider = (name: string): LLMProvider => {
+    switch (name) {
+        case 'gemini': return createGeminiProvider();
+        case 'openai': return createOpenAICompatibleProvider();
+        case 'mock': return createMockProvider();
+        case 'proxy':
+        case '':
+            return createProxyProvider();
+        default:
+            throw new Error(`Unknown LLM_PROVIDER "${name}". Use proxy, gemini, openai or mock.`);
+    }
+};
+
+// Chosen with the LLM_PROVIDER environment variable, defaulting to our own API routes
+export const getProvider = (): LLMProvider => {
+    if (!activeProvider) activeProvider = createProvider((process.env.LLM_PROVIDER || '').toLowerCase());
+    return activeProvider;
+};
+
+// Overrides the configured provider, e.g. to run the app against the mock in development
+export const setProvider = (provider: LLMProvider) => {
+    activeProvider = provider;
+};
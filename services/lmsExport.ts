@@ -0,0 +1,133 @@
+import { Question, WrittenQuestion } from "../types";
+import { createZip } from "./zip";
+
+const OPTION_LABELS = 'ABCDE';
+
+// $$...$$ -> \[...\] and $...$ -> \(...\), the delimiters Anki and Moodle's MathJax filter understand
+export const toBracketMath = (text: string): string => text
+    .replace(/\$\$([\s\S]+?)\$\$/g, (_, tex) => `\\[${tex}\\]`)
+    .replace(/\$([^$\n]+?)\$/g, (_, tex) => `\\(${tex}\\)`);
+
+const escapeHtml = (text: string) => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const toHtmlLines = (text: string) => escapeHtml(toBracketMath(text)).replace(/\r?\n/g, '<br>');
+
+// --- Anki ---
+
+/**
+ * Tab-separated notes for Anki's "Import File" with the Basic note type: Front, Back, Tags.
+ * MCQ fronts list the options; backs give the correct option. Written questions carry the model answer.
+ */
+export const toAnkiTSV = (questions: Question[], writtenQuestions: WrittenQuestion[] = []): string => {
+    const clean = (html: string) => html.replace(/\t/g, ' ');
+    const tagOf = (value: string) => value.trim().replace(/\s+/g, '_');
+    const rows: string[] = ['#separator:tab', '#html:true', '#columns:Front\tBack\tTags'];
+
+    questions.forEach(q => {
+        const options = q.options.map((opt, i) => `${OPTION_LABELS[i] || i + 1}. ${toHtmlLines(opt)}`).join('<br>');
+        const idx = q.options.indexOf(q.correctAnswer);
+        const label = idx !== -1 ? `${OPTION_LABELS[idx] || idx + 1}. ` : '';
+        const tags = ['mcq', q.subject, q.chapter, q.topic, q.difficulty, q.kind].filter((t): t is string => !!t).map(tagOf).join(' ');
+        const explanation = q.explanation ? `<br><br>${toHtmlLines(q.explanation)}` : '';
+        rows.push([clean(`${toHtmlLines(q.text)}<br><br>${options}`), clean(`${label}${toHtmlLines(q.correctAnswer)}${explanation}`), tags].join('\t'));
+    });
+    writtenQuestions.forEach(w => {
+        const tag = `written ${tagOf(w.subject)}`;
+        rows.push([clean(toHtmlLines(w.question)), clean(toHtmlLines(w.answer)), tag].join('\t'));
+    });
+    return rows.join('\n');
+};
+
+// --- Moodle GIFT ---
+
+// Backslash first, so TeX commands survive GIFT's own escaping
+const escapeGift = (text: string) => toBracketMath(text)
+    .replace(/\\/g, '\\\\')
+    .replace(/([~=#{}:])/g, '\\$1')
+    .replace(/\r?\n/g, '\\n');
+
+export const toGIFT = (questions: Question[], writtenQuestions: WrittenQuestion[] = []): string => {
+    const blocks: string[] = [];
+    questions.forEach((q, i) => {
+        const answers = q.options.map(opt => `\t${opt === q.correctAnswer ? '=' : '~'}${escapeGift(opt)}`).join('\n');
+        const feedback = q.explanation ? `\n\t####${escapeGift(q.explanation)}` : '';
+        blocks.push(`::Q${i + 1}::[markdown]${escapeGift(q.text)} {\n${answers}${feedback}\n}`);
+    });
+    writtenQuestions.forEach((w, i) => {
+        // Essay question: empty answer set, model solution as general feedback
+        blocks.push(`::W${i + 1} (${escapeGift(w.subject)}, ${escapeGift(w.marks)})::[markdown]${escapeGift(w.question)} {\n\t####${escapeGift(w.answer)}\n}`);
+    });
+    return blocks.join('\n\n') + '\n';
+};
+
+// --- IMS QTI 2.1 ---
+
+const QTI_NS = 'http://www.imsglobal.org/xsd/imsqti_v2p1';
+const QTI_SCHEMA = `${QTI_NS} http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd`;
+
+const escapeXml = (text: string) => escapeHtml(text).replace(/'/g, '&apos;');
+
+const toXhtml = (text: string) => toBracketMath(text)
+    .split(/\r?\n\s*\r?\n/)
+    .map(para => `<p>${escapeXml(para).replace(/\r?\n/g, '<br/>')}</p>`)
+    .join('');
+
+const itemHeader = (identifier: string, title: string) =>
+    `<?xml version="1.0" encoding="UTF-8"?>\n<assessmentItem xmlns="${QTI_NS}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="${QTI_SCHEMA}" identifier="${identifier}" title="${escapeXml(title)}" adaptive="false" timeDependent="false">`;
+
+const MATCH_CORRECT = 'http://www.imsglobal.org/question/qti_v2p1/rptemplates/match_correct';
+
+// match_correct written out, plus showing the explanation once the item has been answered
+const explainedProcessing = `<responseProcessing><responseCondition><responseIf><match><variable identifier="RESPONSE"/><correct identifier="RESPONSE"/></match><setOutcomeValue identifier="SCORE"><baseValue baseType="float">1</baseValue></setOutcomeValue></responseIf><responseElse><setOutcomeValue identifier="SCORE"><baseValue baseType="float">0</baseValue></setOutcomeValue></responseElse></responseCondition><setOutcomeValue identifier="FEEDBACK"><baseValue baseType="identifier">EXPLANATION</baseValue></setOutcomeValue></responseProcessing>`;
+
+const choiceItem = (q: Question, identifier: string, title: string): string => {
+    const correct = q.options.indexOf(q.correctAnswer);
+    const choices = q.options.map((opt, i) => `<simpleChoice identifier="C${i}">${escapeXml(toBracketMath(opt))}</simpleChoice>`).join('');
+    const processing = q.explanation
+        ? `${explainedProcessing}\n<modalFeedback outcomeIdentifier="FEEDBACK" identifier="EXPLANATION" showHide="show">${toXhtml(q.explanation)}</modalFeedback>`
+        : `<responseProcessing template="${MATCH_CORRECT}"/>`;
+    return `${itemHeader(identifier, title)}
+<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="identifier"><correctResponse>${correct !== -1 ? `<value>C${correct}</value>` : ''}</correctResponse></responseDeclaration>
+<outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float"/>${q.explanation ? '\n<outcomeDeclaration identifier="FEEDBACK" cardinality="single" baseType="identifier"/>' : ''}
+<itemBody><choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="1"><prompt>${escapeXml(toBracketMath(q.text))}</prompt>${choices}</choiceInteraction></itemBody>
+${processing}
+</assessmentItem>`;
+};
+
+const essayItem = (w: WrittenQuestion, identifier: string, title: string): string => `${itemHeader(identifier, title)}
+<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string"/>
+<outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float" normalMaximum="${parseFloat(w.marks) || 1}"/>
+<outcomeDeclaration identifier="FEEDBACK" cardinality="single" baseType="identifier"/>
+<itemBody>${toXhtml(w.question)}<extendedTextInteraction responseIdentifier="RESPONSE"/></itemBody>
+<responseProcessing><setOutcomeValue identifier="FEEDBACK"><baseValue baseType="identifier">MODEL_ANSWER</baseValue></setOutcomeValue></responseProcessing>
+<modalFeedback outcomeIdentifier="FEEDBACK" identifier="MODEL_ANSWER" showHide="show">${toXhtml(w.answer)}</modalFeedback>
+</assessmentItem>`;
+
+/** QTI 2.1 content package (zip): one assessmentItem file per question plus imsmanifest.xml. */
+export const toQTIPackage = (questions: Question[], writtenQuestions: WrittenQuestion[] = []): Blob => {
+    const items = [
+        ...questions.map((q, i) => ({ id: `mcq_${i + 1}`, xml: choiceItem(q, `mcq_${i + 1}`, `Q${i + 1}`) })),
+        ...writtenQuestions.map((w, i) => ({ id: `written_${i + 1}`, xml: essayItem(w, `written_${i + 1}`, `W${i + 1} ${w.subject}`) })),
+    ];
+
+    const resources = items.map(item =>
+        `<resource identifier="RES_${item.id}" type="imsqti_item_xmlv2p1" href="items/${item.id}.xml"><file href="items/${item.id}.xml"/></resource>`
+    ).join('\n    ');
+    const manifest = `<?xml version="1.0" encoding="UTF-8"?>
+<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1" identifier="MANIFEST_${Date.now()}">
+  <metadata><schema>QTIv2.1 Package</schema><schemaversion>1.0.0</schemaversion></metadata>
+  <organizations/>
+  <resources>
+    ${resources}
+  </resources>
+</manifest>`;
+
+    return createZip([
+        { path: 'imsmanifest.xml', content: manifest },
+        ...items.map(item => ({ path: `items/${item.id}.xml`, content: item.xml })),
+    ]);
+};
@@ -0,0 +1,82 @@
+// Thin promise wrapper around the browser's IndexedDB for locally persisted app data.
+
+const DB_NAME = 'smart-mcq-master';
+const DB_VERSION = 6;
+
+export const STORES = {
+    uploads: 'uploads',
+    reviews: 'reviews',
+    sources: 'sources',
+    sessions: 'sessions',
+    grades: 'grades',
+    tutorChats: 'tutorChats',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
+    if (dbPromise) return dbPromise;
+    dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error("IndexedDB is not available in this browser."));
+            return;
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            Object.values(STORES).forEach(name => {
+                if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, { keyPath: 'id' });
+            });
+        };
+        request.onsuccess = () => {
+            const db = request.result;
+            // Another tab is upgrading the schema; let it, and reopen on next use (a reload picks up the new version)
+            db.onversionchange = () => {
+                db.close();
+                dbPromise = null;
+            };
+            resolve(db);
+        };
+        // Tabs still running an older version have not let go of the database
+        request.onblocked = () => {
+            dbPromise = null;
+            reject(new Error("The local database is being upgraded but is still open in another tab. Close the app's other tabs and reload."));
+        };
+        request.onerror = () => {
+            dbPromise = null;
+            reject(request.error);
+        };
+    });
+    return dbPromise;
+};
+
+const withStore = async <T>(
+    storeName: StoreName,
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(storeName, mode);
+        const request = run(tx.objectStore(storeName));
+        tx.oncomplete = () => resolve(request.result);
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+};
+
+export const getAll = <T>(storeName: StoreName): Promise<T[]> =>
+    withStore<T[]>(storeName, 'readonly', store => store.getAll() as IDBRequest<T[]>);
+
+export const getOne = <T>(storeName: StoreName, id: IDBValidKey): Promise<T | undefined> =>
+    withStore<T | undefined>(storeName, 'readonly', store => store.get(id) as IDBRequest<T | undefined>);
+
+export const putOne = async <T>(storeName: StoreName, value: T): Promise<void> => {
+    await withStore(storeName, 'readwrite', store => store.put(value));
+};
+
+export const deleteOne = async (storeName: StoreName, id: IDBValidKey): Promise<void> => {
+    await withStore(storeName, 'readwrite', store => store.delete(id));
+};
@@ -0,0 +1,39 @@
+import workerUrl from "pdfjs-dist/build/pdf.worker.min.mjs?url";
+
+// Renders one page of a PDF to a JPEG data URL. pdf.js is only downloaded the first time a page is shown.
+export const renderPdfPage = async (file: Blob, pageNumber: number, width = 1200): Promise<string> => {
+    const pdfjs = await import("pdfjs-dist");
+    pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+    const doc = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+    try {
+        const page = await doc.getPage(Math.min(Math.max(1, pageNumber), doc.numPages));
+        const viewport = page.getViewport({ scale: width / page.getViewport({ scale: 1 }).width });
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.floor(viewport.width);
+        canvas.height = Math.floor(viewport.height);
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error("Canvas is not available.");
+        await page.render({ canvasContext: ctx, viewport }).promise;
+        return canvas.toDataURL('image/jpeg', 0.85);
+    } finally {
+        await doc.destroy();
+    }
+};
+
+// Plain text of one PDF page, in reading order as pdf.js reports it. Empty for scanned pages without a text layer.
+export const readPdfPageText = async (file: Blob, pageNumber: number): Promise<string> => {
+    const pdfjs = await import("pdfjs-dist");
+    pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+    const doc = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+    try {
+        const page = await doc.getPage(Math.min(Math.max(1, pageNumber), doc.numPages));
+        const content = await page.getTextContent();
+        return content.items
+            .map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : ''))
+            .join('')
+            .replace(/[ \t]+/g, ' ')
+            .trim();
+    } finally {
+        await doc.destroy();
+    }
+};
@@ -0,0 +1,170 @@
+import { ExamType, GenerationSettings, Question, SourceRef } from "../types";
+import { LLMTask } from "./llmProvider";
+import { optionLabel } from "./answerKey";
+import { SUBJECTS } from "./examBuilder";
+import { LEVEL_INSTRUCTIONS, planGeneration } from "./generationPlan";
+
+// Prompts are built from task parameters by both the browser (for providers it calls directly) and the API
+// routes, which only accept the parameters so the server's key cannot be used for arbitrary prompts.
+
+// The page range of a PDF excerpt sent on its own
+export interface Excerpt {
+    startPage: number;
+    endPage: number;
+    pageCount: number;
+}
+
+export interface ExtractParams {
+    iteration: number;
+    excerpt?: Excerpt;
+    known: string[]; // starts of questions already extracted from this part of the file
+    explain: boolean;
+}
+
+export interface GenerateParams {
+    examType: ExamType;
+    settings: GenerationSettings;
+    batch: number; // index into planGeneration's batches
+    explain: boolean;
+}
+
+export interface NotesParams {
+    examType: ExamType;
+}
+
+export interface WrittenParams {
+    iteration: number;
+    excerpt?: Excerpt;
+    known: string[];
+}
+
+export interface GradeParams {
+    subject: string;
+    type: string;
+    question: string;
+    solution: string;
+    maxMarks: number;
+    typed: string; // the student's typed answer, possibly alongside a photo
+    hasImage: boolean;
+}
+
+export interface TaskParams {
+    extract: ExtractParams;
+    generate: GenerateParams;
+    notes: NotesParams;
+    written: WrittenParams;
+    grade: GradeParams;
+}
+
+const sourceInstructions = (excerpt?: Excerpt, withBox = true) => [
+    excerpt
+        ? `This excerpt is pages ${excerpt.startPage}-${excerpt.endPage} of a ${excerpt.pageCount}-page document. Set p to the page within this excerpt where each item appears (1 = first page of the excerpt).`
+        : `Set p to the page number where each item appears.`,
+    `Set s to the verbatim source text the item comes from (under 200 characters).`,
+    withBox ? `Set b to its bounding box on that page as [ymin, xmin, ymax, xmax] scaled 0-1000.` : '',
+].join(' ');
+
+// Option letters change when options are shuffled, so the explanation must not depend on them
+const EXPLANATION_INSTRUCTIONS = `Set e to a concise explanation in Bengali (2-4 sentences, math in $...$) of why the correct answer is right; for a calculation show the key steps. Refer to options by their content, never by letter.`;
+
+const TAG_INSTRUCTIONS = `Classify each question: set sj to its subject (one of ${SUBJECTS.join(', ')}), ch to the chapter name as in the HSC textbook, and tp to the specific topic.`;
+
+const PROMPT_BUILDERS: { [T in LLMTask]: (params: TaskParams[T]) => string } = {
+    extract: ({ iteration, excerpt, known, explain }) => `Extract every single MCQ from the document. This is iteration ${iteration}. ${sourceInstructions(excerpt)}
+          Find questions NOT already extracted. Already extracted (skip these): [${known.join(' | ')}]
+          ${TAG_INSTRUCTIONS} ${LEVEL_INSTRUCTIONS} ${explain ? EXPLANATION_INSTRUCTIONS : ''}
+          Math: Must use proper LaTeX $...$. Use \\frac for fractions and \\text{} for units.
+          JSON array: q, o, a, sj, ch, tp, df, kd, ${explain ? 'e, ' : ''}p, s, b.`,
+
+    generate: ({ examType, settings, batch, explain }) => {
+        const planned = planGeneration(examType, settings)[batch];
+        return `${planned.prompt} STRICT: Use \\frac for fractions, \\text{} for units, and wrap everything in $...$. Bengali language. ${TAG_INSTRUCTIONS} ${LEVEL_INSTRUCTIONS} ${explain ? EXPLANATION_INSTRUCTIONS : ''} ${sourceInstructions()} JSON output.`;
+    },
+
+    notes: ({ examType }) => `Comprehensive notes for ${examType.toUpperCase()}. Bengali. Math in $...$. Use proper LaTeX commands. ${sourceInstructions(undefined, false)}`,
+
+    written: ({ iteration, excerpt, known }) => `Extract all WRITTEN questions from the source file. This is iteration ${iteration}. ${sourceInstructions(excerpt)}
+                Scan the entire document and extract questions NOT in this list: [${known.join(', ')}].
+
+                STRICT RULES:
+                1. Language: Bengali.
+                2. LaTeX: Wrap all math in $...$. Use \\frac, \\times, \\text{}, etc. Do NOT skip backslashes.
+                3. Detailed Solve: 'answer' must be a full step-by-step markdown solution.
+
+                Return a JSON array. If no more questions exist, return an empty array [].`,
+
+    grade: ({ subject, type, question, solution, maxMarks, typed, hasImage }) => {
+        const studentWork = hasImage
+            ? `The student's handwritten work is the attached image${typed ? `; they also typed: ${typed}` : ''}. Set transcription to the work as you read it, with math in LaTeX.`
+            : `Student's answer: ${typed}`;
+        return `You are a strict ${subject} examiner for ${type} questions in Bangladeshi engineering admission written tests. Grade the student's answer out of ${maxMarks} marks.
+    Question: ${question}
+    Model solution: ${solution}
+    ${studentWork}
+    Build a rubric of 2-5 criteria whose max values add up to ${maxMarks}, award part marks per criterion, and set score to the sum of awarded marks.
+    In feedback, compare the student's work with the model solution step by step in Bengali Markdown and point out the first step that goes wrong. Use LaTeX $...$ for math.`;
+    },
+};
+
+export const buildPrompt = <T extends LLMTask>(task: T, params: TaskParams[T]): string =>
+    (PROMPT_BUILDERS[task] as (params: TaskParams[T]) => string)(params);
+
+// Enough for a textbook page; longer pages are cut rather than crowding out the conversation
+export const MAX_SOURCE_CHARS = 4000;
+
+/** What the student brings to a tutoring chat besides the question itself. */
+export interface TutorContext {
+    chosenAnswer?: string; // text of the option the student picked
+    note?: string; // the student's own note on the question
+    sourceText?: string; // the page (or snippet) the question came from
+    earlierLetterings?: string[][]; // other option orders that earlier turns of a resumed conversation were lettered by
+}
+
+// The parts of a question the tutor is told about
+export type TutorQuestion = Pick<Question, 'text' | 'options' | 'correctAnswer' | 'needsReview' | 'explanation'> & {
+    source?: Pick<SourceRef, 'fileName' | 'page'>;
+};
+
+export interface TutorParams {
+    question: TutorQuestion;
+    context: TutorContext;
+    trimmed: boolean; // earlier turns were left out of the history sent
+}
+
+// Lettered as the student sees them, so "option গ" means the same thing to both
+const describeQuestion = (question: TutorQuestion) => [
+    `Question: ${question.text}`,
+    ...question.options.map((opt, i) => `(${optionLabel(question, i)}) ${opt}`),
+    question.needsReview ? `The answer key is unverified: "${question.correctAnswer}".` : `Correct answer: (${optionLabel(question, question.options.indexOf(question.correctAnswer))}) ${question.correctAnswer}`,
+].join('\n');
+
+const describeStudent = (question: TutorQuestion, { chosenAnswer, note, sourceText, earlierLetterings = [] }: TutorContext) => {
+    const lines: string[] = [];
+    if (chosenAnswer !== undefined) {
+        const index = question.options.indexOf(chosenAnswer);
+        const verdict = question.needsReview ? '' : chosenAnswer === question.correctAnswer ? ' (correct)' : ' (wrong)';
+        lines.push(`The student chose: ${index !== -1 ? `(${optionLabel(question, index)}) ` : ''}${chosenAnswer}${verdict}`);
+    }
+    if (note?.trim()) lines.push(`The student's own note on this question:\n${note.trim()}`);
+    if (earlierLetterings.length > 0) {
+        const orders = earlierLetterings.map(order => order.map((opt, i) => `(${optionLabel(question, i)}) ${opt}`).join('  '));
+        lines.push(`Earlier turns of this conversation happened while the options were in a different order, so a letter there may mean another option. Earlier letterings:\n${orders.join('\n')}\nTell options apart by their text, and use only the current letters above yourself.`);
+    }
+    if (sourceText?.trim()) {
+        const page = question.source?.page !== undefined ? ` (page ${question.source.page} of ${question.source.fileName})` : '';
+        lines.push(`Source material the question was taken from${page}:\n${sourceText.trim().slice(0, MAX_SOURCE_CHARS)}`);
+    }
+    return lines.length > 0 ? `\n\n${lines.join('\n\n')}` : '';
+};
+
+// Sent, but not shown, to start a chat on a question without a stored explanation
+export const TUTOR_OPENING_PROMPT = "Explain the solution in Bengali. Use LaTeX formatting ($...$) for all math formulas.";
+
+export const buildTutorInstruction = ({ question, context, trimmed }: TutorParams): string => {
+    // With a stored explanation the student has already read it, so follow-ups should build on it rather than repeat it
+    const explained = question.explanation
+        ? `\n\nThe student has already been shown this explanation; answer follow-up questions from it:\n${question.explanation}`
+        : '';
+    const omitted = trimmed ? '\n\nSome earlier follow-up turns of this conversation have been left out.' : '';
+    return `Expert Admission Tutor. Bengali language. Use perfect LaTeX ($...$) for every variable, unit, and formula. Explain clearly step by step. Refer to options by the letters below. When the student picked a wrong option, address the mistake behind it.\n\n${describeQuestion(question)}${describeStudent(question, context)}${explained}${omitted}`;
+};
@@ -0,0 +1,71 @@
+import { GoogleGenAI, Schema, Type } from "@google/genai";
+import { ChatOptions, ChatSession, LLMProvider, ResponseSchema, StructuredRequest } from "../llmProvider";
+import { LLMError } from "../llmErrors";
+
+const DEFAULT_MODEL = 'gemini-3-flash-preview';
+
+// Finish reasons that mean the content was withheld rather than cut short
+const BLOCKED_FINISH_REASONS = new Set(['SAFETY', 'RECITATION', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'IMAGE_SAFETY']);
+
+const TYPE_MAP: Record<ResponseSchema['type'], Type> = {
+    array: Type.ARRAY,
+    object: Type.OBJECT,
+    string: Type.STRING,
+    number: Type.NUMBER,
+    integer: Type.INTEGER,
+    boolean: Type.BOOLEAN,
+};
+
+const toGeminiSchema = (schema: ResponseSchema): Schema => ({
+    type: TYPE_MAP[schema.type],
+    ...(schema.items && { items: toGeminiSchema(schema.items) }),
+    ...(schema.properties && {
+        properties: Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])),
+    }),
+    ...(schema.required && { required: schema.required }),
+    ...(schema.enum && { enum: schema.enum }),
+});
+
+// The browser build only has a key when LLM_PROVIDER=gemini inlines it; the API routes pass the server's own key
+export const createGeminiProvider = (apiKey = process.env.API_KEY): LLMProvider => {
+    const model = process.env.GEMINI_MODEL || DEFAULT_MODEL;
+
+    const getClient = () => {
+        if (!apiKey) throw new Error("API Key not found. Please set the API_KEY environment variable.");
+        return new GoogleGenAI({ apiKey });
+    };
+
+    const generateStructured = async ({ prompt, schema, file, signal }: StructuredRequest): Promise<string> => {
+        const ai = getClient();
+        const parts = file ? [{ inlineData: { mimeType: file.mimeType, data: file.data } }, { text: prompt }] : [{ text: prompt }];
+        const response = await ai.models.generateContent({
+            model,
+            contents: { parts },
+            config: { responseMimeType: "application/json", responseSchema: toGeminiSchema(schema), abortSignal: signal },
+        });
+        const blockReason = response.promptFeedback?.blockReason;
+        const finishReason = response.candidates?.[0]?.finishReason;
+        if (blockReason || (finishReason && BLOCKED_FINISH_REASONS.has(finishReason))) {
+            throw new LLMError('safety', `Gemini blocked the response (${blockReason || finishReason}).`);
+        }
+        return response.text || '';
+    };
+
+    const createChat = ({ systemInstruction, history = [] }: ChatOptions): ChatSession => {
+        const chat = getClient().chats.create({
+            model,
+            config: { systemInstruction },
+            history: history.map(m => ({ role: m.role, parts: [{ text: m.text }] })),
+        });
+        return {
+            async *sendMessageStream(message: string, signal?: AbortSignal) {
+                const stream = await chat.sendMessageStream({ message, config: { abortSignal: signal } });
+                for await (const chunk of stream) {
+                    if (chunk.text) yield chunk.text;
+                }
+            },
+        };
+    };
+
+    return { name: 'gemini', generateStructured, createChat };
+};
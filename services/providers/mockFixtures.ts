@@ -0,0 +1,109 @@
+// Canned responses for the mock provider, in the same minified shapes the real prompts ask for.
+
+export const MCQ_FIXTURES = [
+    {
+        q: "একটি বস্তুর ভর $2\\text{ kg}$ এবং বেগ $3\\text{ m/s}$ হলে এর গতিশক্তি কত?",
+        o: ["$6\\text{ J}$", "$9\\text{ J}$", "$12\\text{ J}$", "$18\\text{ J}$"],
+        a: "$9\\text{ J}$",
+        sj: "Physics",
+        ch: "কাজ, শক্তি ও ক্ষমতা",
+        tp: "গতিশক্তি",
+        df: "easy",
+        kd: "numerical",
+        e: "গতিশক্তি $E_k = \\frac{1}{2}mv^2 = \\frac{1}{2} \\times 2 \\times 3^2 = 9\\text{ J}$।",
+    },
+    {
+        q: "$\\int_0^1 x^2\\,dx$ এর মান কত?",
+        o: ["$\\frac{1}{2}$", "$\\frac{1}{3}$", "$\\frac{1}{4}$", "$1$"],
+        a: "$\\frac{1}{3}$",
+        sj: "Higher Math",
+        ch: "যোগজীকরণ",
+        tp: "নির্দিষ্ট যোগজ",
+        df: "medium",
+        kd: "numerical",
+        e: "$\\int_0^1 x^2\\,dx = \\left[\\frac{x^3}{3}\\right]_0^1 = \\frac{1}{3}$।",
+    },
+    {
+        q: "নিচের কোনটি একটি নিষ্ক্রিয় গ্যাস?",
+        o: ["নাইট্রোজেন", "অক্সিজেন", "আর্গন", "হাইড্রোজেন"],
+        a: "(গ)",
+        sj: "Chemistry",
+        ch: "পর্যায়বৃত্ত ধর্ম",
+        tp: "নিষ্ক্রিয় গ্যাস",
+        df: "easy",
+        kd: "recall",
+        e: "আর্গনের যোজ্যতা স্তর পূর্ণ ($3s^2 3p^6$), তাই এটি সাধারণ অবস্থায় বিক্রিয়া করে না।",
+    },
+    {
+        q: "কোষের শক্তিঘর বলা হয় কোনটিকে?",
+        o: ["রাইবোজোম", "মাইটোকন্ড্রিয়া", "গলজি বস্তু", "লাইসোজোম"],
+        a: "মাইটোকন্ড্রিয়া",
+        sj: "Biology",
+        ch: "কোষ ও এর গঠন",
+        tp: "কোষীয় অঙ্গাণু",
+        df: "easy",
+        kd: "recall",
+        e: "মাইটোকন্ড্রিয়ায় শ্বসনের মাধ্যমে ATP তৈরি হয়, তাই একে কোষের শক্তিঘর বলা হয়।",
+    },
+    {
+        q: "Choose the correct synonym of 'Abundant'.",
+        o: ["Scarce", "Plentiful", "Rare", "Meagre"],
+        a: "Plentiful",
+        sj: "English",
+        ch: "Vocabulary",
+        tp: "Synonyms",
+        df: "easy",
+        kd: "recall",
+        e: "'Abundant' মানে প্রচুর; 'Plentiful' একই অর্থ বহন করে।",
+    },
+];
+
+export const NOTE_FIXTURES = [
+    {
+        title: "নিউটনের গতিসূত্র",
+        content: "- **প্রথম সূত্র:** বাহ্যিক বল প্রয়োগ না করলে স্থির বস্তু স্থির থাকে।\n- **দ্বিতীয় সূত্র:** $F = ma$\n- **তৃতীয় সূত্র:** প্রত্যেক ক্রিয়ার সমান ও বিপরীত প্রতিক্রিয়া আছে।",
+        importance: "High",
+    },
+    {
+        title: "সমাকলনের মৌলিক সূত্র",
+        content: "$$\\int x^n\\,dx = \\frac{x^{n+1}}{n+1} + C,\\quad n \\neq -1$$",
+        importance: "Medium",
+    },
+];
+
+export const WRITTEN_FIXTURES = [
+    {
+        subject: "Physics",
+        question: "একটি প্রক্ষেপকে $30^\\circ$ কোণে $20\\text{ m/s}$ বেগে নিক্ষেপ করা হলো। সর্বোচ্চ উচ্চতা নির্ণয় করো।",
+        answer: "সর্বোচ্চ উচ্চতা,\n$$H = \\frac{u^2 \\sin^2\\theta}{2g} = \\frac{20^2 \\times (0.5)^2}{2 \\times 9.8} \\approx 5.1\\text{ m}$$",
+        marks: "5",
+        type: "Math",
+    },
+    {
+        subject: "Chemistry",
+        question: "লা-শাতেলিয়ের নীতি বিবৃত করো।",
+        answer: "কোনো সাম্যাবস্থায় থাকা ব্যবস্থার তাপমাত্রা, চাপ বা ঘনমাত্রা পরিবর্তন করলে সাম্যাবস্থা এমন দিকে সরে যায় যাতে পরিবর্তনের প্রভাব প্রশমিত হয়।",
+        marks: "2.5",
+        type: "Theory",
+    },
+    {
+        subject: "Higher Math",
+        question: "$\\lim_{x \\to 0} \\frac{\\sin x}{x}$ এর মান নির্ণয় করো।",
+        answer: "L'Hôpital এর নিয়মে, $\\lim_{x \\to 0} \\frac{\\cos x}{1} = 1$",
+        marks: "2.5",
+        type: "Math",
+    },
+];
+
+export const GRADE_FIXTURE = {
+    score: 3,
+    rubric: [
+        { criterion: "সঠিক সূত্র", awarded: 1.5, max: 1.5, comment: "$H = \\frac{u^2 \\sin^2\\theta}{2g}$ ঠিকভাবে লেখা হয়েছে।" },
+        { criterion: "মান বসানো ও হিসাব", awarded: 1, max: 2.5, comment: "$\\sin 30^\\circ$ এর বর্গ নেওয়া হয়নি।" },
+        { criterion: "একক ও উপস্থাপন", awarded: 0.5, max: 1, comment: "চূড়ান্ত উত্তরে একক নেই।" },
+    ],
+    feedback: "**(Mock মূল্যায়ন)**\n\n১. সূত্র ঠিক আছে।\n২. $\\sin^2 30^\\circ = 0.25$ বসাতে হবে, $0.5$ নয়।\n৩. উত্তর $\\approx 5.1\\text{ m}$ — একক লিখতে ভুলো না।",
+    transcription: "H = u^2 sin^2θ / 2g = 400 × 0.5 / 19.6 = 10.2",
+};
+
+export const TUTOR_REPLY = "**(Mock টিউটর)** এটি একটি পরীক্ষামূলক উত্তর।\n\n> মূল ধারণা: $E_k = \\frac{1}{2}mv^2$\n\n১. প্রদত্ত মান বসাও।\n২. হিসাব করো।\n৩. একক যাচাই করো।";
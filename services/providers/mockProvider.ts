@@ -0,0 +1,54 @@
+import { ChatOptions, ChatSession, LLMProvider, LLMTask, StructuredRequest } from "../llmProvider";
+import { GRADE_FIXTURE, MCQ_FIXTURES, NOTE_FIXTURES, TUTOR_REPLY, WRITTEN_FIXTURES } from "./mockFixtures";
+
+const STREAM_DELAY_MS = 15;
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) { reject(new DOMException('Aborted', 'AbortError')); return; }
+    const onAbort = () => { clearTimeout(timer); reject(new DOMException('Aborted', 'AbortError')); };
+    const timer = setTimeout(() => { signal?.removeEventListener('abort', onAbort); resolve(); }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// The extraction loops re-prompt with "iteration N"; answering only the first keeps them finite
+const isFollowUpIteration = (prompt: string) => {
+    const match = prompt.match(/iteration (\d+)/);
+    return !!match && Number(match[1]) > 1;
+};
+
+const fixtureFor = (task: LLMTask, prompt: string): object => {
+    if (isFollowUpIteration(prompt)) return [];
+    switch (task) {
+        case 'extract':
+        case 'generate':
+            return MCQ_FIXTURES;
+        case 'notes':
+            return NOTE_FIXTURES;
+        case 'written':
+            return WRITTEN_FIXTURES;
+        case 'grade':
+            return GRADE_FIXTURE;
+    }
+};
+
+/**
+ * Deterministic offline provider: the same request always yields the same response, with no
+ * network or API key. Enable with LLM_PROVIDER=mock.
+ */
+export const createMockProvider = (): LLMProvider => {
+    const generateStructured = async ({ task, prompt, signal }: StructuredRequest): Promise<string> => {
+        await wait(STREAM_DELAY_MS, signal);
+        return JSON.stringify(fixtureFor(task, prompt));
+    };
+
+    const createChat = (_options: ChatOptions): ChatSession => ({
+        async *sendMessageStream(_message: string, signal?: AbortSignal) {
+            for (const word of TUTOR_REPLY.split(/(?<= )/)) {
+                await wait(STREAM_DELAY_MS, signal);
+                yield word;
+            }
+        },
+    });
+
+    return { name: 'mock', generateStructured, createChat };
+};
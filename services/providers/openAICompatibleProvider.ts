@@ -0,0 +1,95 @@
+import { ChatOptions, ChatSession, FilePart, LLMProvider, StructuredRequest } from "../llmProvider";
+
+// Works with OpenAI itself and local servers exposing /v1/chat/completions (llama.cpp server, Ollama, LM Studio, vLLM)
+const DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+const DEFAULT_MODEL = 'llama3.1';
+
+type ContentPart =
+    | { type: 'text'; text: string }
+    | { type: 'image_url'; image_url: { url: string } }
+    | { type: 'file'; file: { filename: string; file_data: string } };
+
+interface OpenAIMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string | ContentPart[];
+}
+
+// Images go in as image_url parts; other files (PDF) use the "file" part, which not every local server supports
+const toFilePart = (file: FilePart): ContentPart => {
+    const dataUrl = `data:${file.mimeType};base64,${file.data}`;
+    if (file.mimeType.startsWith('image/')) return { type: 'image_url', image_url: { url: dataUrl } };
+    return { type: 'file', file: { filename: 'upload.pdf', file_data: dataUrl } };
+};
+
+// Server-sent events from a streaming chat completion, yielding content deltas
+async function* readDeltas(response: Response): AsyncIterable<string> {
+    if (!response.body) return;
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+            const trimmed = line.trim();
+            if (!trimmed.startsWith('data:')) continue;
+            const payload = trimmed.slice(5).trim();
+            if (payload === '[DONE]') return;
+            try {
+                const delta = JSON.parse(payload).choices?.[0]?.delta?.content;
+                if (delta) yield delta;
+            } catch (e) {}
+        }
+    }
+}
+
+export const createOpenAICompatibleProvider = (apiKey = process.env.OPENAI_API_KEY): LLMProvider => {
+    const baseUrl = (process.env.OPENAI_BASE_URL || DEFAULT_BASE_URL).replace(/\/$/, '');
+    const model = process.env.OPENAI_MODEL || DEFAULT_MODEL;
+
+    const post = async (body: object, signal?: AbortSignal): Promise<Response> => {
+        const response = await fetch(`${baseUrl}/chat/completions`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...(apiKey && { Authorization: `Bearer ${apiKey}` }) },
+            body: JSON.stringify({ model, ...body }),
+            signal,
+        });
+        if (!response.ok) throw new Error(`LLM server responded ${response.status}: ${await response.text()}`);
+        return response;
+    };
+
+    const generateStructured = async ({ prompt, schema, file, signal }: StructuredRequest): Promise<string> => {
+        const content: ContentPart[] = file ? [toFilePart(file), { type: 'text', text: prompt }] : [{ type: 'text', text: prompt }];
+        const response = await post({
+            messages: [{ role: 'user', content }],
+            response_format: { type: 'json_schema', json_schema: { name: 'response', schema } },
+        }, signal);
+        const json = await response.json();
+        return json.choices?.[0]?.message?.content || '';
+    };
+
+    const createChat = ({ systemInstruction, history = [] }: ChatOptions): ChatSession => {
+        const messages: OpenAIMessage[] = [
+            { role: 'system', content: systemInstruction },
+            ...history.map(m => ({ role: m.role === 'model' ? 'assistant' as const : 'user' as const, content: m.text })),
+        ];
+        return {
+            // The turn joins the session only once its reply is complete, so a stopped or failed stream leaves nothing behind
+            async *sendMessageStream(message: string, signal?: AbortSignal) {
+                const turn: OpenAIMessage = { role: 'user', content: message };
+                const response = await post({ messages: [...messages, turn], stream: true }, signal);
+                let reply = '';
+                for await (const delta of readDeltas(response)) {
+                    reply += delta;
+                    yield delta;
+                }
+                messages.push(turn, { role: 'assistant', content: reply });
+            },
+        };
+    };
+
+    return { name: 'openai', generateStructured, createChat };
+};
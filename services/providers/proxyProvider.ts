@@ -0,0 +1,69 @@
+import { ChatMessage } from "../../types";
+import { ChatOptions, ChatSession, LLMProvider, StructuredRequest } from "../llmProvider";
+import { LLMError, LLMErrorKind, kindForStatus } from "../llmErrors";
+
+// Same-origin routes served by api/*.ts on Vercel and by the dev middleware in vite.config.ts
+const API_BASE = '/api';
+
+const post = async (path: string, body: object, signal?: AbortSignal): Promise<Response> => {
+    const response = await fetch(`${API_BASE}/${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal,
+    });
+    if (!response.ok) {
+        let message = response.statusText;
+        let kind: LLMErrorKind = kindForStatus(response.status);
+        try {
+            const body = await response.json();
+            message = body.error || message;
+            kind = body.kind || kind;
+        } catch (e) {}
+        const retryAfter = Number(response.headers.get('Retry-After'));
+        throw new LLMError(kind, `API responded ${response.status}: ${message}`, retryAfter > 0 ? retryAfter * 1000 : undefined);
+    }
+    return response;
+};
+
+async function* readText(response: Response): AsyncIterable<string> {
+    if (!response.body) return;
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        const text = decoder.decode(value, { stream: true });
+        if (text) yield text;
+    }
+}
+
+/**
+ * Talks to our own backend, which holds the API key and rate-limits each client. The server builds
+ * the prompt and picks the response schema from the task, so only its parameters and the file are sent.
+ */
+export const createProxyProvider = (): LLMProvider => {
+    const generateStructured = async ({ task, params, file, signal }: StructuredRequest): Promise<string> => {
+        const response = await post(task, { params, file }, signal);
+        const json = await response.json();
+        return json.text || '';
+    };
+
+    // The server keeps no session state, so every turn resends the transcript so far
+    const createChat = ({ tutor, history = [] }: ChatOptions): ChatSession => {
+        const transcript: ChatMessage[] = [...history];
+        return {
+            async *sendMessageStream(message: string, signal?: AbortSignal) {
+                const response = await post('chat', { tutor, history: transcript, message }, signal);
+                let reply = '';
+                for await (const delta of readText(response)) {
+                    reply += delta;
+                    yield delta;
+                }
+                transcript.push({ role: 'user', text: message }, { role: 'model', text: reply });
+            },
+        };
+    };
+
+    return { name: 'proxy', generateStructured, createChat };
+};
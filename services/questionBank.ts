@@ -0,0 +1,40 @@
+import { BankEntry, ExamType, NoteSection, Question, UploadMode, WrittenQuestion } from "../types";
+import { STORES, deleteOne, getAll, putOne } from "./localDb";
+
+export interface BankMaterial {
+    questions: Question[];
+    writtenQuestions: WrittenQuestion[];
+    notes: NoteSection[];
+}
+
+export const saveUpload = async (
+    fileName: string,
+    mode: UploadMode,
+    examType: ExamType,
+    material: BankMaterial
+): Promise<BankEntry> => {
+    const createdAt = Date.now();
+    const entry: BankEntry = { id: `${createdAt}-${fileName}`, fileName, mode, examType, createdAt, ...material };
+    await putOne(STORES.uploads, entry);
+    return entry;
+};
+
+// Overwrites a saved upload, e.g. once an interrupted extraction has been resumed
+export const updateUpload = async (entry: BankEntry): Promise<BankEntry> => {
+    await putOne(STORES.uploads, entry);
+    return entry;
+};
+
+// Newest uploads first
+export const listUploads = async (): Promise<BankEntry[]> => {
+    const entries = await getAll<BankEntry>(STORES.uploads);
+    return entries.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const deleteUpload = (id: string): Promise<void> => deleteOne(STORES.uploads, id);
+
+// Appends items whose id is not already present, so merging the same upload twice is a no-op
+export const mergeById = <T extends { id: number }>(current: T[], incoming: T[]): T[] => {
+    const seen = new Set(current.map(item => item.id));
+    return [...current, ...incoming.filter(item => !seen.has(item.id))];
+};
@@ -0,0 +1,193 @@
+import { NoteSection, Question, QuestionSetFile, SourceRef, WrittenQuestion } from "../types";
+import { generateUniqueId } from "./geminiService";
+import { validateQuestion } from "./answerKey";
+import { toTags } from "./examBuilder";
+import { toLevel } from "./generationPlan";
+
+export interface QuestionSet {
+    questions: Question[];
+    writtenQuestions: WrittenQuestion[];
+    notes: NoteSection[];
+}
+
+const CSV_HEADER = ['question', 'option_a', 'option_b', 'option_c', 'option_d', 'option_e', 'answer', 'subject', 'marks', 'chapter', 'topic', 'difficulty', 'kind', 'explanation'];
+const MAX_CSV_OPTIONS = 5;
+
+export const downloadFile = (content: BlobPart, fileName: string, mimeType: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+};
+
+export const toSafeFileName = (title: string) => title.trim().replace(/[^\p{L}\p{N}]+/gu, '_').replace(/^_|_$/g, '') || 'questions';
+
+// --- JSON ---
+
+export const toJSON = (set: QuestionSet, title?: string): string => {
+    const file: QuestionSetFile = {
+        format: 'smart-mcq-set',
+        version: 1,
+        exportedAt: new Date().toISOString(),
+        title,
+        ...set,
+    };
+    return JSON.stringify(file, null, 2);
+};
+
+const str = (value: any): string => (typeof value === 'string' ? value : value == null ? '' : String(value));
+const id = (value: any): number => (typeof value === 'number' && Number.isFinite(value) ? value : generateUniqueId());
+
+const fraction = (value: any) => typeof value === 'number' && value >= 0 && value <= 1;
+
+// Keeps provenance from exports made by this app; the fileId only resolves on the device that made the upload
+const sanitizeSource = (raw: any): { source?: SourceRef } => {
+    if (!raw || typeof raw !== 'object' || !str(raw.fileName)) return {};
+    const box = raw.box;
+    return {
+        source: {
+            fileName: str(raw.fileName),
+            ...(typeof raw.fileId === 'string' && { fileId: raw.fileId }),
+            ...(Number.isInteger(raw.page) && raw.page > 0 && { page: raw.page }),
+            ...(typeof raw.snippet === 'string' && raw.snippet && { snippet: raw.snippet }),
+            ...(box && ['x', 'y', 'width', 'height'].every(k => fraction(box[k])) && { box: { x: box.x, y: box.y, width: box.width, height: box.height } }),
+        },
+    };
+};
+
+const sanitizeQuestion = (raw: any): Question => validateQuestion({
+    id: id(raw?.id),
+    text: str(raw?.text),
+    options: Array.isArray(raw?.options) ? raw.options.map(str) : [],
+    correctAnswer: str(raw?.correctAnswer),
+    ...toTags(raw?.subject, raw?.chapter, raw?.topic),
+    ...toLevel(raw?.difficulty, raw?.kind),
+    ...(str(raw?.explanation).trim() && { explanation: str(raw.explanation).trim() }),
+    ...sanitizeSource(raw?.source),
+});
+
+const sanitizeWritten = (raw: any): WrittenQuestion => ({
+    id: id(raw?.id),
+    subject: str(raw?.subject) || 'General',
+    question: str(raw?.question),
+    answer: str(raw?.answer),
+    marks: str(raw?.marks),
+    type: ['Theory', 'Math', 'Short Note'].includes(raw?.type) ? raw.type : 'Theory',
+    ...sanitizeSource(raw?.source),
+});
+
+const sanitizeNote = (raw: any): NoteSection => ({
+    id: id(raw?.id),
+    title: str(raw?.title),
+    content: str(raw?.content),
+    importance: ['High', 'Medium', 'Normal'].includes(raw?.importance) ? raw.importance : 'Normal',
+    ...sanitizeSource(raw?.source),
+});
+
+// Accepts a QuestionSetFile or a bare Question[] array
+export const parseJSON = (text: string): QuestionSet => {
+    const parsed = JSON.parse(text);
+    if (Array.isArray(parsed)) return { questions: parsed.map(sanitizeQuestion), writtenQuestions: [], notes: [] };
+    if (parsed?.format !== 'smart-mcq-set') throw new Error("Unrecognized JSON file: expected format \"smart-mcq-set\".");
+    const list = (value: any) => (Array.isArray(value) ? value : []);
+    return {
+        questions: list(parsed.questions).map(sanitizeQuestion),
+        writtenQuestions: list(parsed.writtenQuestions).map(sanitizeWritten),
+        notes: list(parsed.notes).map(sanitizeNote),
+    };
+};
+
+// --- CSV ---
+
+const escapeCsv = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/**
+ * One row per item. MCQs fill option_a..option_e; written questions leave the options empty
+ * and carry the model answer in `answer`. Notes have no CSV form.
+ */
+export const toCSV = (questions: Question[], writtenQuestions: WrittenQuestion[] = [], marksPerQuestion = 1): string => {
+    const rows: string[][] = [CSV_HEADER];
+    questions.forEach(q => {
+        const options = Array.from({ length: MAX_CSV_OPTIONS }, (_, i) => q.options[i] || '');
+        rows.push([q.text, ...options, q.correctAnswer, q.subject || '', String(marksPerQuestion), q.chapter || '', q.topic || '', q.difficulty || '', q.kind || '', q.explanation || '']);
+    });
+    writtenQuestions.forEach(w => {
+        rows.push([w.question, '', '', '', '', '', w.answer, w.subject, w.marks]);
+    });
+    // Leading BOM so Excel opens Bengali text as UTF-8
+    return '\uFEFF' + rows.map(row => row.map(escapeCsv).join(',')).join('\r\n');
+};
+
+// RFC 4180: quoted fields may contain commas, doubled quotes and newlines
+const parseCsvRows = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    const input = text.replace(/^\uFEFF/, '');
+
+    for (let i = 0; i < input.length; i++) {
+        const ch = input[i];
+        if (inQuotes) {
+            if (ch === '"' && input[i + 1] === '"') { field += '"'; i++; }
+            else if (ch === '"') inQuotes = false;
+            else field += ch;
+        } else if (ch === '"') {
+            inQuotes = true;
+        } else if (ch === ',') {
+            row.push(field); field = '';
+        } else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && input[i + 1] === '\n') i++;
+            row.push(field); field = '';
+            rows.push(row); row = [];
+        } else {
+            field += ch;
+        }
+    }
+    if (field !== '' || row.length > 0) { row.push(field); rows.push(row); }
+    return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+export const parseCSV = (text: string): QuestionSet => {
+    const [header, ...rows] = parseCsvRows(text);
+    if (!header) return { questions: [], writtenQuestions: [], notes: [] };
+    const columns = header.map(h => h.trim().toLowerCase());
+    const col = (name: string) => columns.indexOf(name);
+    if (col('question') === -1 || col('answer') === -1) throw new Error("CSV must have at least \"question\" and \"answer\" columns.");
+    const optionCols = ['option_a', 'option_b', 'option_c', 'option_d', 'option_e'].map(col).filter(i => i !== -1);
+
+    const questions: Question[] = [];
+    const writtenQuestions: WrittenQuestion[] = [];
+    rows.forEach(row => {
+        const cell = (i: number) => (i === -1 ? '' : (row[i] || '').trim());
+        // Options stay in their columns so an answer given as a letter still points at the right one
+        const options = optionCols.map(cell);
+        while (options.length > 0 && options[options.length - 1] === '') options.pop();
+        if (options.filter(o => o !== '').length >= 2) {
+            const question = validateQuestion({
+                id: generateUniqueId(),
+                text: cell(col('question')),
+                options,
+                correctAnswer: cell(col('answer')),
+                ...toTags(cell(col('subject')), cell(col('chapter')), cell(col('topic'))),
+                ...toLevel(cell(col('difficulty')), cell(col('kind'))),
+                ...(cell(col('explanation')) && { explanation: cell(col('explanation')) }),
+            });
+            // A blank option between filled ones is more likely a slip than intended, so leave it to be checked
+            questions.push(options.includes('') ? { ...question, needsReview: true } : question);
+        } else {
+            writtenQuestions.push(sanitizeWritten({ question: cell(col('question')), answer: cell(col('answer')), subject: cell(col('subject')), marks: cell(col('marks')) }));
+        }
+    });
+    return { questions, writtenQuestions, notes: [] };
+};
+
+export const parseQuestionSetFile = async (file: File): Promise<QuestionSet> => {
+    const text = await file.text();
+    if (file.name.toLowerCase().endsWith('.csv') || file.type === 'text/csv') return parseCSV(text);
+    return parseJSON(text);
+};
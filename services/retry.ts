@@ -0,0 +1,48 @@
+import { LLMError, toLLMError } from "./llmErrors";
+
+const BASE_DELAY_MS = 1_000;
+const MAX_DELAY_MS = 30_000;
+const DEFAULT_MAX_ATTEMPTS = 4;
+const DEFAULT_RETRY_BUDGET = 8;
+
+// Shared by every call in one extraction run, so a file that keeps failing cannot retry forever
+export interface RetryBudget {
+    remaining: number;
+}
+
+export interface RetryOptions {
+    budget: RetryBudget;
+    signal?: AbortSignal;
+    maxAttempts?: number;
+    onRetry?: (error: LLMError, attempt: number, delayMs: number) => void;
+}
+
+export const createRetryBudget = (retries = DEFAULT_RETRY_BUDGET): RetryBudget => ({ remaining: retries });
+
+// Exponential with ±25% jitter so parallel tabs do not retry in lockstep
+export const backoffDelay = (attempt: number): number => {
+    const exponential = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempt - 1));
+    return Math.round(exponential * (0.75 + Math.random() * 0.5));
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const onAbort = () => { clearTimeout(timer); reject(new LLMError('aborted', 'Aborted')); };
+    const timer = setTimeout(() => { signal?.removeEventListener('abort', onAbort); resolve(); }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/** Runs `task`, retrying retryable failures with backoff until the attempts or the budget run out. Always rejects with an LLMError. */
+export const withRetry = async <T>(task: () => Promise<T>, { budget, signal, maxAttempts = DEFAULT_MAX_ATTEMPTS, onRetry }: RetryOptions): Promise<T> => {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await task();
+        } catch (e) {
+            const error = signal?.aborted ? new LLMError('aborted', 'Aborted') : toLLMError(e);
+            if (!error.retryable || attempt >= maxAttempts || budget.remaining <= 0) throw error;
+            budget.remaining--;
+            const delayMs = Math.min(MAX_DELAY_MS * 2, Math.max(error.retryAfterMs ?? 0, backoffDelay(attempt)));
+            onRetry?.(error, attempt, delayMs);
+            await sleep(delayMs, signal);
+        }
+    }
+};
@@ -0,0 +1,91 @@
+import { LLMTask, ResponseSchema } from "./llmProvider";
+import { SUBJECTS } from "./examBuilder";
+import { DIFFICULTIES, QUESTION_KINDS } from "./generationPlan";
+
+// Response shapes for each task. Shared with the API routes so the server, not the caller, decides what the model returns.
+
+export const MCQ_SCHEMA: ResponseSchema = {
+    type: 'array',
+    items: {
+        type: 'object',
+        properties: {
+            q: { type: 'string' },
+            o: { type: 'array', items: { type: 'string' } },
+            a: { type: 'string' },
+            sj: { type: 'string', enum: SUBJECTS },
+            ch: { type: 'string' },
+            tp: { type: 'string' },
+            df: { type: 'string', enum: DIFFICULTIES },
+            kd: { type: 'string', enum: QUESTION_KINDS },
+            e: { type: 'string' },
+            p: { type: 'integer' },
+            s: { type: 'string' },
+            b: { type: 'array', items: { type: 'integer' } }
+        },
+        required: ["q", "o", "a"]
+    }
+};
+
+export const NOTES_SCHEMA: ResponseSchema = {
+    type: 'array',
+    items: {
+        type: 'object',
+        properties: {
+            title: { type: 'string' },
+            content: { type: 'string' },
+            importance: { type: 'string', enum: ["High", "Medium", "Normal"] },
+            p: { type: 'integer' },
+            s: { type: 'string' }
+        },
+        required: ["title", "content", "importance"]
+    }
+};
+
+export const WRITTEN_SCHEMA: ResponseSchema = {
+    type: 'array',
+    items: {
+        type: 'object',
+        properties: {
+            subject: { type: 'string' },
+            question: { type: 'string' },
+            answer: { type: 'string' },
+            marks: { type: 'string' },
+            type: { type: 'string', enum: ["Theory", "Math", "Short Note"] },
+            p: { type: 'integer' },
+            s: { type: 'string' },
+            b: { type: 'array', items: { type: 'integer' } }
+        },
+        required: ["subject", "question", "answer", "marks", "type"]
+    }
+};
+
+export const GRADE_SCHEMA: ResponseSchema = {
+    type: 'object',
+    properties: {
+        score: { type: 'number' },
+        rubric: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    criterion: { type: 'string' },
+                    awarded: { type: 'number' },
+                    max: { type: 'number' },
+                    comment: { type: 'string' }
+                },
+                required: ["criterion", "awarded", "max", "comment"]
+            }
+        },
+        feedback: { type: 'string' },
+        transcription: { type: 'string' }
+    },
+    required: ["score", "rubric", "feedback"]
+};
+
+export const TASK_SCHEMAS: Record<LLMTask, ResponseSchema> = {
+    extract: MCQ_SCHEMA,
+    generate: MCQ_SCHEMA,
+    notes: NOTES_SCHEMA,
+    written: WRITTEN_SCHEMA,
+    grade: GRADE_SCHEMA,
+};
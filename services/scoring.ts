@@ -0,0 +1,48 @@
+import { ExamType, Question, ScoreBreakdown, ScoringRules } from "../types";
+
+// Admission-test defaults; the SETUP step lets the user override them per exam
+export const DEFAULT_SCORING_RULES: Record<ExamType, ScoringRules> = {
+    varsity: { marksPerQuestion: 1, negativeMark: 0.25, passPercentage: 40 },
+    ckruet: { marksPerQuestion: 1, negativeMark: 0.25, passPercentage: 40 },
+    buet: { marksPerQuestion: 1, negativeMark: 0, passPercentage: 40 },
+};
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export const computeScore = (
+    questions: Question[],
+    answers: Record<number, string>,
+    rules: ScoringRules
+): ScoreBreakdown => {
+    let correct = 0;
+    let wrong = 0;
+    let skipped = 0;
+    const scorable = questions.filter(q => !q.needsReview);
+
+    scorable.forEach(q => {
+        const answer = answers[q.id];
+        if (!answer) skipped++;
+        else if (answer === q.correctAnswer) correct++;
+        else wrong++;
+    });
+
+    const grossScore = round2(correct * rules.marksPerQuestion);
+    const penalty = round2(wrong * rules.negativeMark);
+    const netScore = round2(grossScore - penalty);
+    const maxScore = round2(scorable.length * rules.marksPerQuestion);
+    const percentage = maxScore > 0 ? Math.max(0, Math.round((netScore / maxScore) * 100)) : 0;
+
+    return {
+        total: scorable.length,
+        correct,
+        wrong,
+        skipped,
+        grossScore,
+        penalty,
+        netScore,
+        maxScore,
+        percentage,
+        passed: maxScore > 0 && (netScore / maxScore) * 100 >= rules.passPercentage,
+        needsReview: questions.length - scorable.length,
+    };
+};
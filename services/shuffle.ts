@@ -0,0 +1,47 @@
+import { Question } from "../types";
+import { shuffle } from "./examBuilder";
+import { relabelReferences } from "./answerKey";
+
+// "All of the above" and similar only make sense in the position the author gave them
+const PINNED_OPTION = /all of the above|none of the above|both of the above|উপরের সব|সবগুলো|সবকয়টি|সবকটি|কোনোটিই নয়|কোনটিই নয়|উভয়ই/i;
+
+export const createSeed = (): number => Math.floor(Math.random() * 0x100000000);
+
+// mulberry32: small and fast, and the same seed always deals the same paper
+export const seededRandom = (seed: number): (() => number) => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+    };
+};
+
+// Question ids are timestamps larger than 32 bits, so both halves go into the per-question seed
+const questionSeed = (seed: number, id: number) =>
+    (Math.imul(seed ^ (id >>> 0), 0x9E3779B1) ^ Math.floor(id / 0x100000000)) >>> 0;
+
+/** order[shownIndex] = original index. Pinned options keep their place; the rest are dealt from the attempt's seed. */
+export const optionOrder = (question: Question, seed: number): number[] => {
+    const indices = question.options.map((_, i) => i);
+    const pinned = (i: number) => PINNED_OPTION.test(question.options[i]);
+    const dealt = shuffle(indices.filter(i => !pinned(i)), seededRandom(questionSeed(seed, question.id)));
+    let next = 0;
+    return indices.map(i => (pinned(i) ? i : dealt[next++]));
+};
+
+/**
+ * The question as shown in one attempt: options reordered, letter references such as "ক ও খ"
+ * rewritten to the new letters, and the answer key moved with its option.
+ */
+export const shuffleOptions = (question: Question, seed: number): Question => {
+    const order = optionOrder(question, seed);
+    const shownAt = new Map(order.map((original, shown) => [original, shown]));
+    const options = order.map(original => relabelReferences(question.options[original], i => shownAt.get(i) ?? i));
+    const correct = question.correctIndex ?? question.options.indexOf(question.correctAnswer);
+    const correctIndex = shownAt.get(correct);
+    if (correctIndex === undefined) return { ...question, options };
+    return { ...question, options, correctIndex, correctAnswer: options[correctIndex] };
+};
@@ -0,0 +1,61 @@
+import { BankEntry, ExamSession, ReviewCard, SourceRef } from "../types";
+import { STORES, deleteOne, getAll, getOne, putOne } from "./localDb";
+import { readPdfPageText } from "./pdfRender";
+
+// The original uploads, kept so questions can show the page they came from
+export interface StoredSourceFile {
+    id: string;
+    fileName: string;
+    mimeType: string;
+    blob: Blob;
+    createdAt: number;
+}
+
+export const saveSourceFile = async (file: File): Promise<string> => {
+    const createdAt = Date.now();
+    const stored: StoredSourceFile = { id: `${createdAt}-${file.name}`, fileName: file.name, mimeType: file.type, blob: file, createdAt };
+    await putOne(STORES.sources, stored);
+    return stored.id;
+};
+
+export const getSourceFile = (id: string): Promise<StoredSourceFile | undefined> => getOne<StoredSourceFile>(STORES.sources, id);
+
+/**
+ * The text around an item: the whole source page when the stored upload is a PDF with a text layer,
+ * otherwise the snippet recorded at extraction. Undefined when neither is available.
+ */
+export const readSourceText = async (source?: SourceRef): Promise<string | undefined> => {
+    if (!source) return undefined;
+    const stored = source.fileId ? await getSourceFile(source.fileId) : undefined;
+    if (stored?.mimeType === 'application/pdf' && source.page !== undefined) {
+        const text = await readPdfPageText(stored.blob, source.page);
+        if (text) return text;
+    }
+    return source.snippet || undefined;
+};
+
+export const deleteSourceFiles = async (ids: string[]): Promise<void> => {
+    await Promise.all(ids.map(id => deleteOne(STORES.sources, id)));
+};
+
+export const referencedFileIds = (items: { source?: SourceRef }[]): string[] =>
+    [...new Set(items.map(item => item.source?.fileId).filter((id): id is string => !!id))];
+
+/**
+ * The ids among `ids` that nothing else points to: no saved upload (JSON imports copy fileIds too), past exam
+ * session or review card, and none of the `open` items the app is still showing.
+ */
+export const unreferencedFileIds = async (ids: string[], open: { source?: SourceRef }[] = []): Promise<string[]> => {
+    const [uploads, sessions, cards] = await Promise.all([
+        getAll<BankEntry>(STORES.uploads),
+        getAll<ExamSession>(STORES.sessions),
+        getAll<ReviewCard>(STORES.reviews),
+    ]);
+    const inUse = new Set(referencedFileIds([
+        ...uploads.flatMap(u => [...u.questions, ...u.writtenQuestions, ...u.notes]),
+        ...sessions.flatMap(s => s.attempts.map(a => a.question)),
+        ...cards.map(c => c.question),
+        ...open,
+    ]));
+    return ids.filter(id => !inUse.has(id));
+};
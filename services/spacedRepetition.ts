@@ -0,0 +1,92 @@
+import { Question, ReviewCard } from "../types";
+import { STORES, getAll, getOne, putOne } from "./localDb";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASE = 1.3;
+
+const endOfToday = () => {
+    const d = new Date();
+    d.setHours(23, 59, 59, 999);
+    return d.getTime();
+};
+
+// SM-2 recall quality (0-5) from correctness and answer time
+const gradeAnswer = (correct: boolean, seconds?: number): number => {
+    if (!correct) return 1;
+    if (seconds === undefined) return 4;
+    if (seconds <= 30) return 5;
+    if (seconds <= 90) return 4;
+    return 3;
+};
+
+const newCard = (question: Question): ReviewCard => ({
+    id: question.id,
+    question,
+    easeFactor: 2.5,
+    intervalDays: 0,
+    repetitions: 0,
+    dueAt: Date.now(),
+    history: [],
+});
+
+export const scheduleReview = (card: ReviewCard, correct: boolean, seconds?: number): ReviewCard => {
+    const quality = gradeAnswer(correct, seconds);
+    let { repetitions, intervalDays, easeFactor } = card;
+
+    if (quality < 3) {
+        repetitions = 0;
+        intervalDays = 1;
+    } else {
+        if (repetitions === 0) intervalDays = 1;
+        else if (repetitions === 1) intervalDays = 6;
+        else intervalDays = Math.round(intervalDays * easeFactor);
+        repetitions++;
+    }
+    easeFactor = Math.max(MIN_EASE, easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+
+    const reviewedAt = Date.now();
+    return {
+        ...card,
+        repetitions,
+        intervalDays,
+        easeFactor,
+        dueAt: reviewedAt + intervalDays * DAY_MS,
+        history: [...card.history, { reviewedAt, correct, seconds }],
+    };
+};
+
+export const recordReview = async (question: Question, correct: boolean, seconds?: number): Promise<ReviewCard> => {
+    const existing = await getOne<ReviewCard>(STORES.reviews, question.id);
+    const card = scheduleReview({ ...(existing || newCard(question)), question }, correct, seconds);
+    await putOne(STORES.reviews, card);
+    return card;
+};
+
+/**
+ * Feeds a finished exam into the review queue. Wrong answers and favorites are added to the deck;
+ * questions already in the deck get their answer recorded either way. Skipped favorites are queued for today.
+ */
+export const recordExamResults = async (
+    questions: Question[],
+    answers: Record<number, string>,
+    answerTimes: Record<number, number>,
+    favorites: Set<number>
+): Promise<void> => {
+    const known = new Set((await getAll<ReviewCard>(STORES.reviews)).map(c => c.id));
+    for (const q of questions) {
+        if (q.needsReview) continue;
+        const answer = answers[q.id];
+        const correct = answer === q.correctAnswer;
+        if (answer && (!correct || favorites.has(q.id) || known.has(q.id))) {
+            await recordReview(q, correct, answerTimes[q.id]);
+        } else if (!answer && favorites.has(q.id) && !known.has(q.id)) {
+            await putOne(STORES.reviews, newCard(q));
+        }
+    }
+};
+
+export const getDueCards = async (): Promise<ReviewCard[]> => {
+    const cutoff = endOfToday();
+    const cards = await getAll<ReviewCard>(STORES.reviews);
+    return cards.filter(c => c.dueAt <= cutoff).sort((a, b) => a.dueAt - b.dueAt);
+};
@@ -0,0 +1,47 @@
+// Text normalization and fuzzy matching shared by the dedup and answer-repair passes.
+
+/**
+ * Strips formatting that does not change meaning: math delimiters and braces, \text{}-style wrappers,
+ * generation labels like "[BUET Standard]", other punctuation, case and spacing. Command names,
+ * signs and operators (+ - = < > ^ _) are kept, so "$\sin\theta$" and "$\cos\theta$" or "$-2$" and
+ * "$2$" stay apart while "$x^{2}\text{ kg}$" and "x^2 kg" compare as equal.
+ */
+export const normalizeText = (text: string): string => {
+    if (typeof text !== 'string') return "";
+    return text
+        .replace(/^\s*\[[^\]]*\]\s*/, '')
+        .replace(/\\(?:text|mathrm|mathbf|textbf|operatorname)\{([^}]*)\}/g, ' $1 ')
+        .replace(/\\([a-zA-Z]+)/g, ' $1 ')
+        .replace(/−/g, '-')
+        .replace(/(?![-_^])[\p{P}\p{Sc}\p{Sk}\p{So}]/gu, ' ')
+        .replace(/\s*([-+=<>^_])\s*/g, '$1')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .toLowerCase();
+};
+
+const bigrams = (text: string): Map<string, number> => {
+    const grams = new Map<string, number>();
+    const compact = text.replace(/\s+/g, ' ');
+    for (let i = 0; i < compact.length - 1; i++) {
+        const gram = compact.slice(i, i + 2);
+        grams.set(gram, (grams.get(gram) || 0) + 1);
+    }
+    return grams;
+};
+
+// Sørensen–Dice coefficient over character bigrams of already-normalized text (0..1)
+export const similarity = (a: string, b: string): number => {
+    if (a === b) return 1;
+    if (a.length < 2 || b.length < 2) return 0;
+    const gramsA = bigrams(a);
+    const gramsB = bigrams(b);
+    let overlap = 0;
+    let total = 0;
+    gramsA.forEach((count, gram) => {
+        overlap += Math.min(count, gramsB.get(gram) || 0);
+        total += count;
+    });
+    gramsB.forEach(count => { total += count; });
+    return total > 0 ? (2 * overlap) / total : 0;
+};
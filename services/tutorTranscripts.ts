@@ -0,0 +1,46 @@
+import { BankEntry, ChatMessage, ExamSession, Question, ReviewCard, TutorTranscript } from "../types";
+import { STORES, deleteOne, getAll, getOne, putOne } from "./localDb";
+
+export const loadTranscript = async (questionId: number): Promise<Pick<TutorTranscript, 'messages' | 'letterings'>> => {
+    const saved = await getOne<TutorTranscript>(STORES.tutorChats, questionId);
+    return { messages: saved?.messages ?? [], letterings: saved?.letterings ?? [] };
+};
+
+// Resuming under a different option order appends it, so letters in the turns before can still be read
+export const withLettering = (letterings: string[][], options: string[]): string[][] => {
+    const last = letterings[letterings.length - 1];
+    return last && last.join('\n') === options.join('\n') ? letterings : [...letterings, options];
+};
+
+// Only finished turns are kept; a reply still streaming when the page closed is dropped
+export const saveTranscript = (questionId: number, messages: ChatMessage[], letterings: string[][] = []): Promise<void> => {
+    const finished = messages.filter(m => !m.isStreaming && m.text.trim()).map(({ role, text }) => ({ role, text }));
+    if (finished.length === 0) return deleteOne(STORES.tutorChats, questionId);
+    return putOne<TutorTranscript>(STORES.tutorChats, { id: questionId, messages: finished, letterings, updatedAt: Date.now() });
+};
+
+export type SavedChat = Pick<TutorTranscript, 'messages' | 'letterings'>;
+
+export const listTranscripts = async (): Promise<Record<number, SavedChat>> => {
+    const transcripts = await getAll<TutorTranscript>(STORES.tutorChats);
+    return Object.fromEntries(transcripts.map(t => [t.id, { messages: t.messages, letterings: t.letterings }]));
+};
+
+/**
+ * Deletes the conversations on the questions in `questionIds` that nothing else still holds: no saved upload
+ * (imports and merges keep question ids), past exam session or review card, and none of the `open` questions.
+ */
+export const deleteTranscripts = async (questionIds: number[], open: Pick<Question, 'id'>[] = []): Promise<void> => {
+    const [uploads, sessions, cards] = await Promise.all([
+        getAll<BankEntry>(STORES.uploads),
+        getAll<ExamSession>(STORES.sessions),
+        getAll<ReviewCard>(STORES.reviews),
+    ]);
+    const inUse = new Set([
+        ...uploads.flatMap(u => u.questions),
+        ...sessions.flatMap(s => s.attempts.map(a => a.question)),
+        ...cards.map(c => c.question),
+        ...open,
+    ].map(q => q.id));
+    await Promise.all(questionIds.filter(id => !inUse.has(id)).map(id => deleteOne(STORES.tutorChats, id)));
+};
@@ -0,0 +1,14 @@
+import { WrittenGrade } from "../types";
+import { STORES, getAll, putOne } from "./localDb";
+
+export const saveGrade = (grade: WrittenGrade): Promise<void> => putOne(STORES.grades, grade);
+
+// Newest first, grouped by written question id
+export const listGrades = async (): Promise<Record<number, WrittenGrade[]>> => {
+    const grades = await getAll<WrittenGrade>(STORES.grades);
+    const byQuestion: Record<number, WrittenGrade[]> = {};
+    grades.sort((a, b) => b.gradedAt - a.gradedAt).forEach(g => {
+        (byQuestion[g.questionId] ||= []).push(g);
+    });
+    return byQuestion;
+};
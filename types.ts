@@ -1,12 +1,46 @@
+// Where an item was found in an uploaded file
+export interface SourceRef {
+  fileName: string;
+  fileId?: string; // key of the stored upload in IndexedDB, when the original file was kept
+  page?: number; // 1-based PDF page
+  snippet?: string; // verbatim text from the source
+  box?: { x: number; y: number; width: number; height: number }; // region on the page or image, as fractions of its size
+}
+
+export type Subject = 'Physics' | 'Chemistry' | 'Higher Math' | 'Biology' | 'English' | 'Bangla';
+
 export interface Question {
   id: number;
   text: string;
   options: string[];
   correctAnswer: string; // The text of the correct option
+  correctIndex?: number; // Index into options once the answer key is validated
+  needsReview?: boolean; // The answer key could not be matched to any option
+  subject?: Subject;
+  chapter?: string;
+  topic?: string;
+  difficulty?: Difficulty;
+  kind?: QuestionKind;
+  explanation?: string; // short worked solution, shown once the question is answered
+  source?: SourceRef;
+}
+
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
+export type QuestionKind = 'recall' | 'numerical' | 'conceptual' | 'assertion-reason';
+
+// What the generate mode asks the model for
+export interface GenerationSettings {
+  count: number; // 0 = as many as the material supports
+  difficultyMix: Record<Difficulty, number>; // relative weights, shown as percentages
+  kinds: QuestionKind[]; // empty = any kind
+  subjects: Subject[]; // empty = every subject in the file
 }
 
 export type ExamType = 'varsity' | 'ckruet' | 'buet';
 
+export type UploadMode = 'extract' | 'generate' | 'notes' | 'written';
+
 export interface WrittenQuestion {
   id: number;
   subject: string; // e.g. "Physics", "Chemistry", "Higher Math"
@@ -14,6 +48,27 @@ export interface WrittenQuestion {
   answer: string;
   marks: string; // e.g. "2.5", "5", "10"
   type: 'Theory' | 'Math' | 'Short Note';
+  source?: SourceRef;
+}
+
+// One criterion of a written answer's grade
+export interface RubricItem {
+  criterion: string;
+  awarded: number;
+  max: number;
+  comment: string;
+}
+
+export interface WrittenGrade {
+  id: string;
+  questionId: number;
+  gradedAt: number; // epoch ms
+  answerText: string; // the typed answer, or what was read from the photo
+  fromPhoto: boolean;
+  score: number;
+  maxMarks: number;
+  rubric: RubricItem[];
+  feedback: string; // Markdown, step by step against the model solution
 }
 
 export interface ChatMessage {
@@ -22,11 +77,20 @@ export interface ChatMessage {
   isStreaming?: boolean;
 }
 
+// A saved tutor conversation, one per question
+export interface TutorTranscript {
+  id: number; // question id
+  messages: ChatMessage[];
+  letterings?: string[][]; // option orders the conversation's letters have referred to, oldest first; attempts re-shuffle options
+  updatedAt: number; // epoch ms
+}
+
 export interface NoteSection {
   id: number;
   title: string;
   content: string; // Markdown text
   importance: 'High' | 'Medium' | 'Normal';
+  source?: SourceRef;
 }
 
 export enum AppStep {
@@ -35,11 +99,126 @@ export enum AppStep {
   EXAM = 'EXAM',
   RESULTS = 'RESULTS',
   NOTES_VIEW = 'NOTES_VIEW',
-  WRITTEN_VIEW = 'WRITTEN_VIEW'
+  WRITTEN_VIEW = 'WRITTEN_VIEW',
+  REVIEW = 'REVIEW',
+  EDITOR = 'EDITOR',
+  ANALYTICS = 'ANALYTICS',
+  ANSWER_REVIEW = 'ANSWER_REVIEW'
 }
 
 export interface QuizResult {
   score: number;
   total: number;
   answers: Record<number, string>; // questionId -> selectedOptionText
-}
\ No newline at end of file
+}
+
+export interface BankEntry {
+  id: string;
+  fileName: string;
+  mode: UploadMode;
+  examType: ExamType;
+  createdAt: number; // epoch ms
+  questions: Question[];
+  writtenQuestions: WrittenQuestion[];
+  notes: NoteSection[];
+}
+export interface ScoringRules {
+  marksPerQuestion: number;
+  negativeMark: number; // deducted per wrong answer, skipped questions cost nothing
+  passPercentage: number; // of the maximum score
+}
+
+export interface ScoreBreakdown {
+  total: number;
+  correct: number;
+  wrong: number;
+  skipped: number;
+  grossScore: number;
+  penalty: number;
+  netScore: number;
+  maxScore: number;
+  percentage: number; // net score as % of max, floored at 0
+  passed: boolean;
+  needsReview: number; // questions left out of scoring because their answer key is unresolved
+}
+
+export type ExamMode = 'practice' | 'mock';
+
+export interface ExamConfig {
+  mode: ExamMode;
+  durationMinutes: number; // mock mode only
+  questionCount: number; // 0 = all available questions
+  shuffle: boolean; // question order
+  shuffleOptions: boolean;
+  filter: ExamFilter;
+}
+
+// Which questions an exam draws from. Empty lists match everything
+export interface ExamFilter {
+  subjects: Subject[]; // a non-empty list leaves out untagged questions
+  chapters: string[];
+  topics: string[];
+  perSubject: Partial<Record<Subject, number>>; // 0 or missing = every matching question of that subject
+  area?: Pick<Question, 'subject' | 'chapter' | 'topic'>; // weak-area practice: all three tags must be exactly these, missing ones included
+}
+
+// One question as it was answered in a finished exam
+export interface QuestionAttempt {
+  question: Question; // snapshot, so targeted practice still works after the set is closed
+  answer?: string; // undefined = skipped
+  correct: boolean;
+  seconds?: number;
+}
+
+export interface ExamSession {
+  id: string;
+  finishedAt: number; // epoch ms
+  mode: ExamMode;
+  examType: ExamType;
+  durationSeconds: number;
+  seed?: number; // the attempt's shuffle seed, when questions or options were shuffled
+  attempts: QuestionAttempt[];
+}
+
+export interface ReviewLog {
+  reviewedAt: number; // epoch ms
+  correct: boolean;
+  seconds?: number; // time taken to answer, from answerTimes
+}
+
+// Spaced-repetition state for one question (SM-2)
+export interface ReviewCard {
+  id: number; // question id
+  question: Question;
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+  dueAt: number; // epoch ms
+  history: ReviewLog[];
+}
+
+export interface DuplicateGroup {
+  keep: Question;
+  duplicates: Question[];
+  similarity: number; // lowest pairwise score that joined the group, 0..1
+}
+
+// On-disk format for JSON import/export, see README "Question set files"
+export interface QuestionSetFile {
+  format: 'smart-mcq-set';
+  version: 1;
+  exportedAt: string; // ISO 8601
+  title?: string;
+  questions: Question[];
+  writtenQuestions: WrittenQuestion[];
+  notes: NoteSection[];
+}
+
+export type PrintDocumentType = 'questions' | 'notes' | 'written';
+
+export interface PrintOptions {
+  answerKeyAtEnd: boolean; // answers/solutions collected after all questions instead of inline
+  twoColumn: boolean;
+  questionsOnly: boolean; // no answers, solutions or personal notes at all
+  tutorChats: boolean; // saved AI tutor conversations under each question
+}
@@ -1,5 +1,50 @@
-import { defineConfig, loadEnv } from 'vite'
+import { defineConfig, loadEnv, Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
+import { existsSync } from 'node:fs'
+import { resolve } from 'node:path'
+
+// Read by the API routes, never inlined into the browser bundle
+const SERVER_ENV = ['GEMINI_API_KEY', 'API_KEY', 'API_LLM_PROVIDER', 'RATE_LIMIT_PER_MINUTE', 'GEMINI_MODEL', 'OPENAI_BASE_URL', 'OPENAI_MODEL', 'OPENAI_API_KEY']
+
+// Serves api/*.ts during `vite` dev the way Vercel does in production: web Request in, Response out
+const apiRoutes = (): Plugin => ({
+  name: 'api-routes',
+  configureServer(server) {
+    server.middlewares.use('/api', async (req, res, next) => {
+      const route = (req.url || '').split('?')[0].replace(/^\/+/, '')
+      if (!/^[a-z-]+$/.test(route) || !existsSync(resolve('api', `${route}.ts`))) return next()
+      try {
+        const handler = (await server.ssrLoadModule(`/api/${route}.ts`))[req.method || 'GET']
+        if (typeof handler !== 'function') {
+          res.statusCode = 405
+          res.end()
+          return
+        }
+        const chunks: Buffer[] = []
+        for await (const chunk of req) chunks.push(chunk)
+        const headers = new Headers()
+        Object.entries(req.headers).forEach(([key, value]) => typeof value === 'string' && headers.set(key, value))
+        const aborter = new AbortController()
+        res.on('close', () => aborter.abort())
+        const response: Response = await handler(new Request(`http://localhost/api/${route}`, {
+          method: req.method,
+          headers,
+          body: chunks.length > 0 ? Buffer.concat(chunks) : undefined,
+          signal: aborter.signal,
+        }))
+        res.statusCode = response.status
+        response.headers.forEach((value, key) => res.setHeader(key, value))
+        if (response.body) {
+          const reader = response.body.getReader()
+          for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) res.write(chunk.value)
+        }
+        res.end()
+      } catch (error) {
+        next(error)
+      }
+    })
+  },
+})
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => {
@@ -7,15 +52,29 @@ export default defineConfig(({ mode }) => {
   // Set the third parameter to '' to load all env regardless of the `VITE_` prefix.
   // Using '.' instead of process.cwd() to avoid TS error about missing cwd property on Process type
   const env = loadEnv(mode, '.', '')
-  
+  SERVER_ENV.forEach(key => {
+    if (!process.env[key] && env[key]) process.env[key] = env[key]
+  })
+  const provider = (process.env.LLM_PROVIDER || env.LLM_PROVIDER || '').toLowerCase()
+
   return {
-    plugins: [react()],
+    plugins: [react(), apiRoutes()],
     build: {
       outDir: 'build',
+      // Inline KaTeX's woff2 fonts so the printable PDF document works without network access
+      assetsInlineLimit: (filePath: string) => (/katex.*\.woff2$/.test(filePath) ? true : undefined),
     },
     define: {
-      // Polyfill process.env.API_KEY for the browser
-      'process.env.API_KEY': JSON.stringify(process.env.API_KEY || env.API_KEY)
+      // Keys reach the browser only in the direct modes; the default proxy mode keeps them on the server
+      'process.env.API_KEY': JSON.stringify(provider === 'gemini' ? process.env.API_KEY || env.API_KEY : ''),
+      'process.env.OPENAI_API_KEY': JSON.stringify(provider === 'openai' ? process.env.OPENAI_API_KEY || env.OPENAI_API_KEY || '' : ''),
+      // LLM provider selection, see services/llmProvider.ts
+      ...Object.fromEntries(
+        ['LLM_PROVIDER', 'GEMINI_MODEL', 'OPENAI_BASE_URL', 'OPENAI_MODEL'].map(key => [
+          `process.env.${key}`,
+          JSON.stringify(process.env[key] || env[key] || ''),
+        ])
+      ),
     }
   }
 })
\ No newline at end of file